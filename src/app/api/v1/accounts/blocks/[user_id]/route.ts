@@ -0,0 +1,60 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    user_id: string;
+  };
+}
+
+interface DELETEResponse {
+  id: string;
+}
+export const DELETE = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { user_id: blockedId } = params;
+    const validate = z
+      .object({
+        blockedId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+      })
+      .safeParse({ blockedId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // buka blokir user
+    const query = database
+      .deleteFrom("user_blocks")
+      .where("blocker", "=", linkId<"users">(userId))
+      .where("blocked", "=", linkId<"users">(blockedId))
+      .returning("id");
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "User tersebut tidak sedang Anda blokir!"
+      );
+
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,142 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const accountsBlocksPaths = {
+  "/api/v1/accounts/blocks": {
+    get: {
+      operationId: "getAllBlockedUsers",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Mendapatkan daftar user yang diblokir",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["blocks"],
+                properties: {
+                  blocks: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: ["id", "user", "created_at"],
+                      properties: {
+                        id: { type: "string" },
+                        user: {
+                          type: "object",
+                          required: ["id", "name", "avatar_url"],
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
+                          },
+                        },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    post: {
+      operationId: "blockUser",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Memblokir user",
+      description:
+        "user yang saling memblokir tidak dapat saling chat, melamar job/offer, dan data miliknya disembunyikan dari daftar job, offer serta lamaran",
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["user_id"],
+              properties: {
+                user_id: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/api/v1/accounts/blocks/{user_id}": {
+    delete: {
+      operationId: "unblockUser",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Membuka blokir user",
+      parameters: [
+        {
+          in: "path",
+          name: "user_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,129 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  blocks: {
+    id: string;
+    user: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+    created_at: string;
+  }[];
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    const query = database
+      .selectFrom("user_blocks as b")
+      .innerJoin("users as u", "u.id", "b.blocked")
+      .select([
+        "b.id",
+        "u.id as user_id",
+        "u.name as user_name",
+        "u.avatar_url as user_avatar_url",
+        sql<string>`b."xata.createdAt"`.as("created_at"),
+      ])
+      .where("b.blocker", "=", linkId<"users">(userId))
+      .orderBy("created_at", "desc");
+    const result = await query.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      blocks: result.map((it) => ({
+        id: it.id,
+        user: {
+          id: it.user_id,
+          name: it.user_name,
+          avatar_url: it.user_avatar_url,
+        },
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface POSTBody {
+  user_id: string;
+}
+interface POSTResponse {
+  id: string;
+}
+export const POST = async (request: NextRequest) => {
+  try {
+    // validasi request dari user
+    const { user_id: blockedId }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        blockedId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+      })
+      .safeParse({ blockedId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    if (blockedId === userId)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak dapat memblokir akun Anda sendiri!"
+      );
+
+    const userQuery = database
+      .selectFrom("users as u")
+      .select(["u.id"])
+      .where("u.id", "=", blockedId);
+    const userResult = await userQuery.executeTakeFirst();
+
+    if (!userResult)
+      return APIResponse.respondWithNotFound(
+        "User dengan ID tersebut tidak ditemukan!"
+      );
+
+    const existingQuery = database
+      .selectFrom("user_blocks as b")
+      .select(["b.id"])
+      .where("b.blocker", "=", linkId<"users">(userId))
+      .where("b.blocked", "=", linkId<"users">(blockedId));
+    const existingResult = await existingQuery.executeTakeFirst();
+
+    if (existingResult)
+      return APIResponse.respondWithConflict(
+        "User tersebut sudah Anda blokir sebelumnya!"
+      );
+
+    const query = database
+      .insertInto("user_blocks")
+      .values({ blocker: userId, blocked: blockedId } as any)
+      .returning("id");
+    const result = await query.executeTakeFirstOrThrow();
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -1,5 +1,7 @@
+import { JobStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { activeJobStatuses, jobStatusValues } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
 import { jsonArrayFrom } from "kysely/helpers/postgres";
 import { NextRequest } from "next/server";
@@ -35,7 +37,7 @@ export const GET = async (request: NextRequest) => {
           eb
             .selectFrom("jobs as j")
             .select(["j.id", "j.note"])
-            .where("j.status", "=", "")
+            .where("j.status", "in", jobStatusValues(JobStatus.OPEN))
             .where("j.customer", "=", userId as any)
         ).as("need_action_jobs"),
 
@@ -44,8 +46,7 @@ export const GET = async (request: NextRequest) => {
           eb
             .selectFrom("jobs as j")
             .select(["j.id", "j.note"])
-            .where("j.status", "!=", "")
-            .where("j.status", "!=", "done")
+            .where("j.status", "in", jobStatusValues(...activeJobStatuses))
             .where("j.customer", "=", userId as any)
         ).as("ongoing_jobs"),
 
@@ -25,6 +25,34 @@ export const accountCustomerOrderHistoriesPaths = {
                           type: "object",
                           properties: {
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  cancelled_orders: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "created_at",
+                        "updated_at",
+                        "cancellation_reason",
+                        "cancellation_note",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        created_at: { type: "string" },
+                        updated_at: { type: "string" },
+                        cancellation_reason: { type: "string" },
+                        cancellation_note: { type: "string" },
+                        driver: {
+                          type: "object",
+                          properties: {
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
                           },
                         },
                       },
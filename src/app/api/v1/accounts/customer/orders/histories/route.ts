@@ -1,5 +1,6 @@
+import { JobStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
@@ -13,6 +14,18 @@ interface GETResponse {
     updated_at: string;
     driver: {
       name: string;
+      avatar_url: string;
+    };
+  }[];
+  cancelled_orders: {
+    id: string;
+    created_at: string;
+    updated_at: string;
+    cancellation_reason: string;
+    cancellation_note: string;
+    driver?: {
+      name: string;
+      avatar_url: string;
     };
   }[];
 }
@@ -39,11 +52,33 @@ export const GET = async (request: NextRequest) => {
         sql<string>`j."xata.createdAt"`.as("created_at"),
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
         "u.name as driver_name",
+        "u.avatar_url as driver_avatar_url",
+      ])
+      .where("j.customer", "=", linkId<"users">(userId))
+      .where("j.status", "=", JobStatus.DONE)
+      .orderBy("created_at desc");
+
+    // ambil data order yang dibatalkan, driver bisa kosong
+    const cancelledQuery = database
+      .selectFrom("jobs as j")
+      .leftJoin("users as u", "u.id", "j.freelancer")
+      .select([
+        "j.id",
+        "j.cancellation_reason",
+        "j.cancellation_note",
+        sql<string>`j."xata.createdAt"`.as("created_at"),
+        sql<string>`j."xata.updatedAt"`.as("updated_at"),
+        "u.name as driver_name",
+        "u.avatar_url as driver_avatar_url",
       ])
-      .where("j.customer", "=", userId as any)
-      .where("j.status", "=", "done")
+      .where("j.customer", "=", linkId<"users">(userId))
+      .where("j.status", "=", JobStatus.CANCELLED)
       .orderBy("created_at desc");
-    const result = await query.execute();
+
+    const [result, cancelledResult] = await Promise.all([
+      query.execute(),
+      cancelledQuery.execute(),
+    ]);
 
     return APIResponse.respondWithSuccess<GETResponse>({
       orders: result.map((it) => ({
@@ -53,8 +88,19 @@ export const GET = async (request: NextRequest) => {
         updated_at: convertDatetimeToISO(it.updated_at),
         driver: {
           name: it.driver_name,
+          avatar_url: it.driver_avatar_url,
         },
       })),
+      cancelled_orders: cancelledResult.map((it) => ({
+        id: it.id,
+        created_at: convertDatetimeToISO(it.created_at),
+        updated_at: convertDatetimeToISO(it.updated_at),
+        cancellation_reason: it.cancellation_reason,
+        cancellation_note: it.cancellation_note,
+        driver: it.driver_name
+          ? { name: it.driver_name, avatar_url: it.driver_avatar_url ?? "" }
+          : undefined,
+      })),
     });
   } catch (e) {
     console.log(e);
@@ -1,5 +1,6 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { finishedJobStatuses } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
@@ -37,7 +38,7 @@ export const GET = async (request: NextRequest) => {
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
       ])
       .where("j.customer", "=", userId as any)
-      .where("j.status", "!=", "done")
+      .where("j.status", "not in", finishedJobStatuses)
       .orderBy("created_at", "desc");
     const result = await query.execute();
 
@@ -18,11 +18,18 @@ export const accountsDriverDashboardPaths = {
                     type: "array",
                     items: {
                       type: "object",
-                      required: ["id", "bid_price", "bid_note", "job"],
+                      required: [
+                        "id",
+                        "bid_price",
+                        "bid_note",
+                        "status",
+                        "job",
+                      ],
                       properties: {
                         id: { type: "string" },
                         bid_price: { type: "integer" },
                         bid_note: { type: "string" },
+                        status: { type: "string" },
                         job: {
                           type: "object",
                           required: [
@@ -37,9 +44,10 @@ export const accountsDriverDashboardPaths = {
                             expected_price: { type: "integer" },
                             customer: {
                               type: "object",
-                              required: ["name"],
+                              required: ["name", "avatar_url"],
                               properties: {
                                 name: { type: "string" },
+                                avatar_url: { type: "string" },
                               },
                             },
                           },
@@ -56,9 +64,10 @@ export const accountsDriverDashboardPaths = {
                         id: { type: "string" },
                         customer: {
                           type: "object",
-                          required: ["name"],
+                          required: ["name", "avatar_url"],
                           properties: {
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
                           },
                         },
                       },
@@ -105,6 +114,7 @@ export const accountsDriverDashboardPaths = {
                             properties: {
                               id: { type: "string" },
                               customer_name: { type: "string" },
+                              customer_avatar_url: { type: "string" },
                               pickup_location: { type: "string" },
                               destination_location: { type: "string" },
                               status: { type: "string" },
@@ -1,5 +1,7 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { activeJobStatuses, jobStatusValues } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
 import { jsonArrayFrom } from "kysely/helpers/postgres";
 import { NextRequest } from "next/server";
@@ -14,12 +16,14 @@ interface GETResponse {
     id: string;
     bid_price: number;
     bid_note: string;
+    status: string;
     job: {
       id: string;
       note: string;
       expected_price: number;
       customer: {
         name: string;
+        avatar_url: string;
       };
     };
   }[];
@@ -27,6 +31,7 @@ interface GETResponse {
     id: string;
     customer: {
       name: string;
+      avatar_url: string;
     };
   }[];
   offers: {
@@ -42,6 +47,7 @@ interface GETResponse {
     applicants: {
       id: string;
       customer_name: string;
+      customer_avatar_url: string;
       pickup_location: string;
       destination_location: string;
       status: string;
@@ -76,13 +82,16 @@ export const GET = async (request: NextRequest) => {
               "ja.id",
               "ja.bid_price",
               "ja.bid_note",
+              "ja.status",
               "j.id as job_id",
               "j.note as job_note",
               "j.expected_price as job_expected_price",
               "u2.name as job_customer_name",
+              "u2.avatar_url as job_customer_avatar_url",
             ])
             .whereRef("ja.freelancer", "=", "u.id")
-            .where("j.status", "=", "")
+            .where("ja.status", "=", JobApplicationStatus.PENDING)
+            .where("j.status", "in", jobStatusValues(JobStatus.OPEN))
         ).as("applications"),
 
         // query untuk mendapatkan daftar job yang sedang dikerjakan
@@ -90,9 +99,13 @@ export const GET = async (request: NextRequest) => {
           eb
             .selectFrom("jobs as j")
             .innerJoin("users as u2", "u2.id", "j.customer")
-            .select(["j.id", "u2.name as customer_name"])
+            .select([
+              "j.id",
+              "u2.name as customer_name",
+              "u2.avatar_url as customer_avatar_url",
+            ])
             .whereRef("j.freelancer", "=", "u.id")
-            .where("j.status", "=", "ongoing")
+            .where("j.status", "in", jobStatusValues(...activeJobStatuses))
         ).as("jobs"),
 
          // query untuk mendapatkan daftar offers yang aktif
@@ -118,6 +131,7 @@ export const GET = async (request: NextRequest) => {
                   .select([
                     "oa2.id",
                     "u3.name as customer_name",
+                    "u3.avatar_url as customer_avatar_url",
                     "oa2.pickup_location",
                     "oa2.destination_location",
                     "oa2.applicant_status as status",
@@ -150,12 +164,14 @@ export const GET = async (request: NextRequest) => {
         id: it.id,
         bid_price: it.bid_price,
         bid_note: it.bid_note,
+        status: it.status,
         job: {
           id: it.job_id,
           note: it.job_note,
           expected_price: it.job_expected_price,
           customer: {
             name: it.job_customer_name,
+            avatar_url: it.job_customer_avatar_url,
           },
         },
       })),
@@ -163,6 +179,7 @@ export const GET = async (request: NextRequest) => {
         id: it.id,
         customer: {
           name: it.customer_name,
+          avatar_url: it.customer_avatar_url,
         },
       })),
       offers: result.offers.map((it) => ({
@@ -178,6 +195,7 @@ export const GET = async (request: NextRequest) => {
         applicants: it.applicants.map((app) => ({
           id: app.id,
           customer_name: app.customer_name,
+          customer_avatar_url: app.customer_avatar_url,
           pickup_location: app.pickup_location,
           destination_location: app.destination_location,
           status: app.status,
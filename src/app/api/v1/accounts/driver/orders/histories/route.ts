@@ -1,5 +1,6 @@
+import { JobStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
@@ -13,6 +14,18 @@ interface GETResponse {
     updated_at: string;
     customer: {
       name: string;
+      avatar_url: string;
+    };
+  }[];
+  cancelled_orders: {
+    id: string;
+    created_at: string;
+    updated_at: string;
+    cancellation_reason: string;
+    cancellation_note: string;
+    customer: {
+      name: string;
+      avatar_url: string;
     };
   }[];
 }
@@ -39,11 +52,33 @@ export const GET = async (request: NextRequest) => {
         sql<string>`j."xata.createdAt"`.as("created_at"),
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
         sql<string>`u.name`.as("customer_name"),
+        sql<string>`u.avatar_url`.as("customer_avatar_url"),
       ])
-      .where("j.freelancer", "=", userId as any)
-      .where("j.status", "=", "done")
+      .where("j.freelancer", "=", linkId<"users">(userId))
+      .where("j.status", "=", JobStatus.DONE)
       .orderBy("created_at desc");
-    const result = await query.execute();
+
+    // ambil data order yang dibatalkan oleh customer
+    const cancelledQuery = database
+      .selectFrom("jobs as j")
+      .innerJoin("users as u", "u.id", "j.customer")
+      .select([
+        "j.id",
+        "j.cancellation_reason",
+        "j.cancellation_note",
+        sql<string>`j."xata.createdAt"`.as("created_at"),
+        sql<string>`j."xata.updatedAt"`.as("updated_at"),
+        sql<string>`u.name`.as("customer_name"),
+        sql<string>`u.avatar_url`.as("customer_avatar_url"),
+      ])
+      .where("j.freelancer", "=", linkId<"users">(userId))
+      .where("j.status", "=", JobStatus.CANCELLED)
+      .orderBy("created_at desc");
+
+    const [result, cancelledResult] = await Promise.all([
+      query.execute(),
+      cancelledQuery.execute(),
+    ]);
 
     return APIResponse.respondWithSuccess<GETResponse>({
       orders: result.map((it) => ({
@@ -53,6 +88,18 @@ export const GET = async (request: NextRequest) => {
         updated_at: convertDatetimeToISO(it.updated_at),
         customer: {
           name: it.customer_name,
+          avatar_url: it.customer_avatar_url,
+        },
+      })),
+      cancelled_orders: cancelledResult.map((it) => ({
+        id: it.id,
+        created_at: convertDatetimeToISO(it.created_at),
+        updated_at: convertDatetimeToISO(it.updated_at),
+        cancellation_reason: it.cancellation_reason,
+        cancellation_note: it.cancellation_note,
+        customer: {
+          name: it.customer_name,
+          avatar_url: it.customer_avatar_url,
         },
       })),
     });
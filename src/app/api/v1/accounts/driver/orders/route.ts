@@ -1,5 +1,6 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { finishedJobStatuses } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
@@ -34,7 +35,7 @@ export const GET = async (request: NextRequest) => {
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
       ])
       .where("j.freelancer", "=", userId as any)
-      .where("j.status", "!=", "done")
+      .where("j.status", "not in", finishedJobStatuses)
       .orderBy("created_at", "desc");
     const result = await query.execute();
 
@@ -0,0 +1,123 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const accountsDriverProfilePaths = {
+  "/api/v1/accounts/driver/profile": {
+    get: {
+      operationId: "getDriverProfile",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Mendapatkan profil kendaraan driver",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: [
+                  "id",
+                  "vehicle_type",
+                  "plate_number",
+                  "vehicle_color",
+                  "vehicle_photo_url",
+                ],
+                properties: {
+                  id: { type: "string" },
+                  vehicle_type: {
+                    type: "string",
+                    enum: ["motorcycle", "car"],
+                  },
+                  plate_number: { type: "string" },
+                  vehicle_color: { type: "string" },
+                  vehicle_photo_url: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+    patch: {
+      operationId: "updateDriverProfile",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Melengkapi atau mengedit profil kendaraan driver",
+      description:
+        "profil kendaraan wajib dilengkapi sebelum driver dapat melamar job atau membuat offer",
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: [
+                "vehicle_type",
+                "plate_number",
+                "vehicle_color",
+                "vehicle_photo_url",
+              ],
+              properties: {
+                vehicle_type: {
+                  type: "string",
+                  enum: ["motorcycle", "car"],
+                },
+                plate_number: { type: "string" },
+                vehicle_color: { type: "string" },
+                vehicle_photo_url: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
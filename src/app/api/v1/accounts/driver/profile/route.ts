@@ -0,0 +1,234 @@
+import { VehicleType } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId, xata } from "@/lib/database";
+import {
+  getDriverProfileId,
+  getPlateNumberClaimId,
+  normalizePlateNumber,
+} from "@/lib/driver-profile";
+import { APIResponse } from "@/lib/models/api-response";
+import { FetcherError } from "@xata.io/client";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  id: string;
+  vehicle_type: string;
+  plate_number: string;
+  vehicle_color: string;
+  vehicle_photo_url: string;
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Driver)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    const query = database
+      .selectFrom("driver_profiles as dp")
+      .select([
+        "dp.id",
+        "dp.vehicle_type",
+        "dp.plate_number",
+        "dp.vehicle_color",
+        "dp.vehicle_photo_url",
+      ])
+      .where("dp.user", "=", linkId<"users">(userId));
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Anda belum melengkapi profil kendaraan!"
+      );
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      id: result.id,
+      vehicle_type: result.vehicle_type,
+      plate_number: result.plate_number,
+      vehicle_color: result.vehicle_color,
+      vehicle_photo_url: result.vehicle_photo_url,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface PATCHBody {
+  vehicle_type: string;
+  plate_number: string;
+  vehicle_color: string;
+  vehicle_photo_url: string;
+}
+interface PATCHResponse {
+  id: string;
+}
+export const PATCH = async (request: NextRequest) => {
+  try {
+    // validasi request dari user
+    const {
+      vehicle_type: vehicleType,
+      plate_number: plateNumber,
+      vehicle_color: vehicleColor,
+      vehicle_photo_url: vehiclePhotoUrl,
+    }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        vehicleType: z.nativeEnum(VehicleType, {
+          errorMap: () => ({ message: "Jenis kendaraan tidak valid!" }),
+        }),
+        // format plat nomor indonesia, misal: AD 1234 XY
+        plateNumber: z
+          .string({ required_error: "Plat nomor tidak boleh kosong!" })
+          .transform((it, ctx) => {
+            const plateNumber = normalizePlateNumber(it);
+            if (!plateNumber) {
+              ctx.addIssue({
+                code: "custom",
+                message: "Plat nomor tidak valid!",
+              });
+              return z.NEVER;
+            }
+            return plateNumber;
+          }),
+        vehicleColor: z
+          .string({ required_error: "Warna kendaraan tidak boleh kosong!" })
+          .trim()
+          .min(1, "Warna kendaraan tidak boleh kosong!"),
+        vehiclePhotoUrl: z
+          .string({ required_error: "Foto kendaraan tidak boleh kosong!" })
+          .url("Foto kendaraan tidak valid!"),
+      })
+      .safeParse({ vehicleType, plateNumber, vehicleColor, vehiclePhotoUrl });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Driver)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    const currentQuery = database
+      .selectFrom("driver_profiles as dp")
+      .select([
+        "dp.id",
+        "dp.plate_number",
+        sql<number>`dp."xata.version"`.as("version"),
+      ])
+      .where("dp.user", "=", linkId<"users">(userId));
+    const currentResult = await currentQuery.executeTakeFirst();
+
+    const profile = {
+      vehicle_type: validate.data.vehicleType,
+      plate_number: validate.data.plateNumber,
+      vehicle_color: validate.data.vehicleColor,
+      vehicle_photo_url: validate.data.vehiclePhotoUrl,
+    };
+    const plateNumberChanged =
+      currentResult?.plate_number !== validate.data.plateNumber;
+
+    /**
+     * plat nomor hanya dapat didaftarkan oleh 1 driver, klaim plat nomor
+     * baru dibuat dan klaim plat nomor lama dihapus di dalam transaksi
+     * yang sama dengan perubahan profil. profil diperbarui jika sudah
+     * ada, jika belum dibuat dengan id dari getDriverProfileId
+     */
+    const profileId = currentResult?.id ?? getDriverProfileId(userId);
+    try {
+      await xata.transactions.run([
+        ...(plateNumberChanged
+          ? [
+              {
+                insert: {
+                  table: "driver_plate_numbers" as const,
+                  createOnly: true,
+                  record: {
+                    id: getPlateNumberClaimId(validate.data.plateNumber),
+                    user: userId,
+                  },
+                },
+              },
+            ]
+          : []),
+        ...(plateNumberChanged && currentResult
+          ? [
+              {
+                delete: {
+                  table: "driver_plate_numbers" as const,
+                  id: getPlateNumberClaimId(currentResult.plate_number),
+                },
+              },
+            ]
+          : []),
+        currentResult
+          ? {
+              update: {
+                table: "driver_profiles" as const,
+                id: profileId,
+                ifVersion: currentResult.version,
+                upsert: false,
+                fields: profile,
+              },
+            }
+          : {
+              insert: {
+                table: "driver_profiles" as const,
+                createOnly: true,
+                record: { id: profileId, ...profile, user: userId },
+              },
+            },
+      ]);
+    } catch (e) {
+      if (e instanceof FetcherError) {
+        // plat nomor sudah diklaim oleh driver lain
+        const claimQuery = database
+          .selectFrom("driver_plate_numbers as dpn")
+          .select(["dpn.user"])
+          .where(
+            "dpn.id",
+            "=",
+            getPlateNumberClaimId(validate.data.plateNumber)
+          );
+        const claimResult = await claimQuery.executeTakeFirst();
+        if (claimResult && (claimResult.user as unknown as string) !== userId)
+          return APIResponse.respondWithConflict(
+            "Plat nomor sudah digunakan oleh driver lain!"
+          );
+
+        // profil sudah diubah oleh request lain sejak dibaca
+        return APIResponse.respondWithConflict(
+          "Profil kendaraan telah berubah, silahkan coba lagi!"
+        );
+      }
+
+      throw e;
+    }
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: profileId,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
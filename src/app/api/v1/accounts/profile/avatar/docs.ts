@@ -0,0 +1,59 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const accountsProfileAvatarPaths = {
+  "/api/v1/accounts/profile/avatar": {
+    put: {
+      operationId: "updateAvatar",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "Mengunggah foto profil",
+      description:
+        "gambar jpeg, png atau webp maksimal 4 MB, diubah ukurannya menjadi 64px (small), 256px (medium) dan 512px (large)",
+      requestBody: {
+        content: {
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              required: ["avatar"],
+              properties: {
+                avatar: { type: "string", format: "binary" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "avatar_url", "avatar_urls"],
+                properties: {
+                  id: { type: "string" },
+                  avatar_url: { type: "string" },
+                  avatar_urls: { $ref: swaggerComponentRefs.AvatarUrls },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        401: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.UnauthorizedError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,79 @@
+import { AvatarUrls, maxAvatarFileSize, uploadAvatar } from "@/lib/avatar";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { allowedImageMediaTypes, InvalidImageError } from "@/lib/image";
+import { APIResponse } from "@/lib/models/api-response";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface PUTResponse {
+  id: string;
+  avatar_url: string;
+  avatar_urls: AvatarUrls;
+}
+export const PUT = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // validasi file yang diunggah melalui multipart/form-data
+    const formData = await request.formData().catch(() => undefined);
+    const validate = z
+      .object({
+        avatar: z
+          .instanceof(File, { message: "Avatar tidak boleh kosong!" })
+          .refine(
+            (it) => allowedImageMediaTypes.includes(it.type),
+            "Avatar harus berupa gambar jpeg, png atau webp!"
+          )
+          .refine(
+            (it) => it.size <= maxAvatarFileSize,
+            "Ukuran avatar maksimal 4 MB!"
+          ),
+      })
+      .safeParse({ avatar: formData?.get("avatar") });
+
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // resize avatar ke beberapa ukuran standar lalu simpan ke storage
+    const content = Buffer.from(await validate.data.avatar.arrayBuffer());
+    let urls: AvatarUrls;
+    try {
+      urls = await uploadAvatar(userId, content);
+    } catch (e) {
+      if (e instanceof InvalidImageError)
+        return APIResponse.respondWithBadRequest([
+          { path: "avatar", message: e.message },
+        ]);
+      throw e;
+    }
+
+    const query = database
+      .updateTable("users")
+      .set({
+        avatar_small_url: urls.small,
+        avatar_url: urls.medium,
+        avatar_large_url: urls.large,
+      })
+      .where("id", "=", userId)
+      .returning(["id"]);
+    const result = await query.executeTakeFirstOrThrow();
+
+    return APIResponse.respondWithSuccess<PUTResponse>({
+      id: result.id,
+      avatar_url: urls.medium,
+      avatar_urls: urls,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
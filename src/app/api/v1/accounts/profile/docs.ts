@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const accountsProfilePaths = {
@@ -13,14 +14,40 @@ export const accountsProfilePaths = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["id", "name", "email", "token", "role", "gender"],
+                required: [
+                  "id",
+                  "name",
+                  "email",
+                  "nim",
+                  "token",
+                  "role",
+                  "gender",
+                  "email_verified",
+                  "avatar_url",
+                  "avatar_urls",
+                  "rating_count",
+                ],
                 properties: {
                   id: { type: "string" },
                   name: { type: "string" },
                   email: { type: "string" },
+                  nim: { type: "string" },
                   token: { type: "string" },
                   role: { type: "string" },
                   gender: { type: "string" },
+                  email_verified: { type: "boolean" },
+                  avatar_url: {
+                    type: "string",
+                    description:
+                      "avatar ukuran medium, kosong jika belum diunggah",
+                  },
+                  avatar_urls: { $ref: swaggerComponentRefs.AvatarUrls },
+                  rating: {
+                    type: "number",
+                    description:
+                      "rata-rata rating sebagai role yang sedang digunakan, kosong jika belum pernah diulas",
+                  },
+                  rating_count: { type: "integer" },
                 },
               },
             },
@@ -46,6 +73,10 @@ export const accountsProfilePaths = {
                   enum: ["male", "female", ""],
                   "x-enum-varnames": ["Male", "Female", "NotSpecified"],
                 },
+                nim: {
+                  type: "string",
+                  description: "opsional, nim tidak diubah jika tidak dikirim",
+                },
               },
             },
           },
@@ -57,7 +88,7 @@ export const accountsProfilePaths = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["id", "name", "gender"],
+                required: ["id", "name", "gender", "nim"],
                 properties: {
                   id: { type: "string" },
                   name: { type: "string" },
@@ -66,11 +97,19 @@ export const accountsProfilePaths = {
                     enum: ["male", "female", ""],
                     "x-enum-varnames": ["Male", "Female", "NotSpecified"],
                   },
+                  nim: { type: "string" },
                 },
               },
             },
           },
         },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
       },
     },
   },
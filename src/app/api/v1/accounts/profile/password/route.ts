@@ -1,6 +1,7 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import { revokeUserSessions } from "@/lib/token-revocation";
 import { hash } from "bcrypt";
 import { NextRequest } from "next/server";
 import { z } from "zod";
@@ -36,7 +37,7 @@ export const PATCH = async (request: NextRequest) => {
     // verifikasi authentication token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
-    const { userId } = authorization;
+    const { sessionId, userId } = authorization;
 
     // query update password
     const hashedPassword = await hash(password, 12);
@@ -49,6 +50,9 @@ export const PATCH = async (request: NextRequest) => {
 
     const result = await query.executeTakeFirstOrThrow();
 
+    // keluarkan seluruh perangkat lain setelah kata sandi diubah
+    await revokeUserSessions(userId, sessionId);
+
     return APIResponse.respondWithSuccess<PATCHResponse>({
       id: result.id,
     });
@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const changeRolePaths = {
@@ -13,7 +14,7 @@ export const changeRolePaths = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["roles"],
+                required: ["roles", "driver_verification"],
                 properties: {
                   roles: {
                     type: "array",
@@ -21,6 +22,21 @@ export const changeRolePaths = {
                       type: "string",
                     },
                   },
+                  driver_verification: {
+                    type: "object",
+                    nullable: true,
+                    description:
+                      "pengajuan verifikasi driver terbaru, null jika belum pernah mengajukan",
+                    required: ["id", "status", "note"],
+                    properties: {
+                      id: { type: "string" },
+                      status: {
+                        type: "string",
+                        enum: ["pending", "approved", "rejected"],
+                      },
+                      note: { type: "string" },
+                    },
+                  },
                 },
               },
             },
@@ -33,6 +49,8 @@ export const changeRolePaths = {
       tags: ["Account"],
       security: swaggerSecurity,
       summary: "Mengubah peran",
+      description:
+        "user yang belum memiliki role driver wajib menyertakan foto KTM dan SIM, pengajuan akan diverifikasi oleh admin dan user tetap menggunakan role saat ini (verification_pending = true)",
       requestBody: {
         content: {
           "application/json": {
@@ -41,6 +59,8 @@ export const changeRolePaths = {
               required: ["role"],
               properties: {
                 role: { type: "string" },
+                student_card_url: { type: "string" },
+                driving_license_url: { type: "string" },
               },
             },
           },
@@ -52,16 +72,38 @@ export const changeRolePaths = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["id", "token", "role"],
+                required: ["id", "token", "role", "verification_pending"],
                 properties: {
                   id: { type: "string" },
                   token: { type: "string" },
                   role: { type: "string" },
+                  verification_pending: { type: "boolean" },
                 },
               },
             },
           },
         },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
       },
     },
   },
@@ -1,12 +1,21 @@
+import { DriverVerificationStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { generateAuthToken } from "@/lib/auth-token";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
+import {
+  DriverVerification,
+  getLatestDriverVerification,
+} from "@/lib/driver-verification";
 import { APIResponse } from "@/lib/models/api-response";
+import { revokeAuthToken } from "@/lib/token-revocation";
+import { sql } from "kysely";
 import { NextRequest } from "next/server";
-import { v4 } from "uuid";
 import { z } from "zod";
 
 interface GETResponse {
   roles: string[];
+  driver_verification: DriverVerification | null;
 }
 export const GET = async (request: NextRequest) => {
   try {
@@ -18,12 +27,14 @@ export const GET = async (request: NextRequest) => {
     const query = database
       .selectFrom("user_roles as ur")
       .select(["ur.role"])
-      .where("ur.user", "=", userId as any);
+      .where("ur.user", "=", linkId<"users">(userId));
 
     const result = await query.execute();
+    const driverVerification = await getLatestDriverVerification(userId);
 
     return APIResponse.respondWithSuccess<GETResponse>({
       roles: result.map((it) => it.role),
+      driver_verification: driverVerification ?? null,
     });
   } catch (e) {
     console.log(e);
@@ -33,19 +44,27 @@ export const GET = async (request: NextRequest) => {
 
 interface PATCHBody {
   role: string;
+  // dokumen verifikasi, wajib diisi ketika pertama kali meminta role driver
+  student_card_url?: string;
+  driving_license_url?: string;
 }
 interface PATCHResponse {
   id: string;
   token: string;
   role: string;
+  verification_pending: boolean;
 }
 export const PATCH = async (request: NextRequest) => {
   try {
     // validasi request dari user
-    const { role }: PATCHBody = await request.json();
+    const {
+      role,
+      student_card_url: studentCardUrl,
+      driving_license_url: drivingLicenseUrl,
+    }: PATCHBody = await request.json();
     const validate = z
       .object({
-        role: z.enum(["customer", "driver"]),
+        role: z.enum(["customer", "driver", "admin"]),
       })
       .safeParse({ role });
     if (!validate.success)
@@ -59,23 +78,112 @@ export const PATCH = async (request: NextRequest) => {
     // verifikasi authentication token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
-    const { token } = authorization;
+    const {
+      sessionId,
+      jti,
+      expiresAt,
+      token,
+      role: currentRole,
+      userId,
+    } = authorization;
 
-    // generate token baru
-    const newToken = v4();
+    // role admin hanya dapat digunakan oleh user yang memiliki role admin
+    if (role === Role.Admin) {
+      const roleQuery = database
+        .selectFrom("user_roles as ur")
+        .select(["ur.id"])
+        .where("ur.user", "=", linkId<"users">(userId))
+        .where("ur.role", "=", Role.Admin);
+      const roleResult = await roleQuery.executeTakeFirst();
 
-    // update role serta simpan token baru ke database session
+      if (!roleResult)
+        return APIResponse.respondWithForbidden(
+          "Anda tidak memiliki akses untuk menggunakan role ini!"
+        );
+    }
+
+    /**
+     * role driver hanya dapat digunakan setelah dokumen diverifikasi oleh
+     * admin, user yang belum memiliki role driver akan mengajukan
+     * verifikasi terlebih dahulu dan tetap menggunakan role saat ini
+     */
+    if (role === Role.Driver) {
+      const roleQuery = database
+        .selectFrom("user_roles as ur")
+        .select(["ur.id"])
+        .where("ur.user", "=", linkId<"users">(userId))
+        .where("ur.role", "=", Role.Driver);
+      const roleResult = await roleQuery.executeTakeFirst();
+
+      if (!roleResult) {
+        const driverVerification = await getLatestDriverVerification(userId);
+        if (driverVerification?.status === DriverVerificationStatus.PENDING)
+          return APIResponse.respondWithConflict(
+            "Pengajuan role driver Anda sedang diverifikasi oleh admin!"
+          );
+
+        const validateDocuments = z
+          .object({
+            studentCardUrl: z
+              .string({ required_error: "Foto KTM tidak boleh kosong!" })
+              .url("Foto KTM tidak valid!"),
+            drivingLicenseUrl: z
+              .string({ required_error: "Foto SIM tidak boleh kosong!" })
+              .url("Foto SIM tidak valid!"),
+          })
+          .safeParse({ studentCardUrl, drivingLicenseUrl });
+        if (!validateDocuments.success)
+          return APIResponse.respondWithBadRequest(
+            validateDocuments.error.errors.map((it) => ({
+              message: it.message,
+              path: it.path[0] as string,
+            }))
+          );
+
+        await database
+          .insertInto("driver_verifications")
+          .values({
+            user: userId,
+            status: DriverVerificationStatus.PENDING,
+            student_card_url: studentCardUrl,
+            driving_license_url: drivingLicenseUrl,
+          } as any)
+          .returning("id")
+          .executeTakeFirstOrThrow();
+
+        return APIResponse.respondWithSuccess<PATCHResponse>({
+          id: userId,
+          role: currentRole,
+          token,
+          verification_pending: true,
+        });
+      }
+    }
+
+    // generate token baru dengan role baru
+    const { token: newToken, expiresAt: newExpiresAt } =
+      await generateAuthToken({
+        id: userId,
+        role,
+        session_id: sessionId,
+      });
+
+    // update role pada session yang sedang digunakan
     const query = database
       .updateTable("user_sessions")
-      .set({ role: role, token: newToken })
-      .where("token", "=", token)
-      .returning(["role", "token", "user"]);
+      .set({ role: role, expires_at: newExpiresAt })
+      .where("id", "=", sessionId)
+      .returning(["role", sql<string>`"user"`.as("user_id")]);
     const result = await query.executeTakeFirstOrThrow();
 
+    // token dengan role lama tidak dapat digunakan kembali
+    await revokeAuthToken(jti, expiresAt);
+
     return APIResponse.respondWithSuccess<PATCHResponse>({
-      id: result.user as any,
+      id: result.user_id,
       role: result.role,
-      token: result.token,
+      token: newToken,
+      verification_pending: false,
     });
   } catch (e) {
     console.log(e);
@@ -1,6 +1,9 @@
+import { Role } from "@/constants/role";
+import { AvatarUrls, toAvatarUrls } from "@/lib/avatar";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import { averageRating, ratingCount } from "@/lib/user-rating";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -8,22 +11,40 @@ interface GETResponse {
   id: string;
   name: string;
   email: string;
+  nim: string;
   token: string;
   role: string;
   gender: string;
+  email_verified: boolean;
+  avatar_url: string;
+  avatar_urls: AvatarUrls;
+  // rating yang diterima user sebagai role yang sedang digunakan
+  rating?: number;
+  rating_count: number;
 }
 export const GET = async (request: NextRequest) => {
   try {
     // verifikasi bearer token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
-    const { token } = authorization;
+    const { token, role, userId } = authorization;
 
     const query = database
-      .selectFrom("user_sessions as us")
-      .innerJoin("users as u", "u.id", "us.user")
-      .select(["u.id", "u.name", "u.email", "us.token", "us.role", "u.gender"])
-      .where("us.token", "=", token);
+      .selectFrom("users as u")
+      .select([
+        "u.id",
+        "u.name",
+        "u.email",
+        "u.nim",
+        "u.gender",
+        "u.email_verified_at",
+        "u.avatar_small_url",
+        "u.avatar_url",
+        "u.avatar_large_url",
+        averageRating("u.id", role as Role).as("rating"),
+        ratingCount("u.id", role as Role).as("rating_count"),
+      ])
+      .where("u.id", "=", userId);
 
     const result = await query.executeTakeFirstOrThrow();
 
@@ -31,9 +52,15 @@ export const GET = async (request: NextRequest) => {
       id: result.id,
       name: result.name,
       email: result.email,
-      role: result.role,
-      token: result.token,
+      nim: result.nim,
+      role,
+      token,
       gender: result.gender,
+      email_verified: !!result.email_verified_at,
+      avatar_url: result.avatar_url,
+      avatar_urls: toAvatarUrls(result),
+      rating: result.rating ?? undefined,
+      rating_count: Number(result.rating_count),
     });
   } catch (e) {
     return APIResponse.respondWithServerError();
@@ -43,16 +70,19 @@ export const GET = async (request: NextRequest) => {
 interface PATCHBody {
   name: string;
   gender: string;
+  // opsional, nim tidak diubah jika tidak dikirim
+  nim?: string;
 }
 interface PATCHResponse {
   id: string;
   name: string;
   gender: string;
+  nim: string;
 }
 export const PATCH = async (request: NextRequest) => {
   try {
     // validasi request dari user
-    const { name, gender }: PATCHBody = await request.json();
+    const { name, gender, nim }: PATCHBody = await request.json();
     const validate = z
       .object({
         name: z
@@ -61,8 +91,14 @@ export const PATCH = async (request: NextRequest) => {
         gender: z.enum(["male", "female", ""], {
           required_error: "Jenis kelamin tidak boleh kosong!",
         }),
+        nim: z
+          .string()
+          .trim()
+          .regex(/^[A-Za-z0-9]*$/, "NIM tidak valid!")
+          .max(20, "NIM maksimal terdiri dari 20 karakter!")
+          .optional(),
       })
-      .safeParse({ name, gender });
+      .safeParse({ name, gender, nim });
 
     if (!validate.success)
       return APIResponse.respondWithBadRequest(
@@ -77,12 +113,28 @@ export const PATCH = async (request: NextRequest) => {
     if (!authorization) return APIResponse.respondWithUnauthorized();
     const { userId } = authorization;
 
+    // nim hanya dapat digunakan oleh 1 akun
+    const newNim = validate.data.nim?.toUpperCase();
+    if (newNim) {
+      const nimQuery = database
+        .selectFrom("users as u")
+        .select(["u.id"])
+        .where("u.nim", "=", newNim)
+        .where("u.id", "!=", userId);
+      const nimResult = await nimQuery.executeTakeFirst();
+
+      if (nimResult)
+        return APIResponse.respondWithConflict(
+          "NIM sudah digunakan oleh akun lain!"
+        );
+    }
+
     // update profile
     const query = database
       .updateTable("users")
-      .set({ name, gender })
+      .set({ name, gender, ...(newNim !== undefined && { nim: newNim }) })
       .where("id", "=", userId)
-      .returning(["id", "name", "gender"]);
+      .returning(["id", "name", "gender", "nim"]);
 
     const result = await query.executeTakeFirstOrThrow();
 
@@ -90,6 +142,7 @@ export const PATCH = async (request: NextRequest) => {
       id: result.id,
       name: result.name,
       gender: result.gender,
+      nim: result.nim,
     });
   } catch (e) {
     console.log(e);
@@ -0,0 +1,63 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { revokeSessions } from "@/lib/token-revocation";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    session_id: string;
+  };
+}
+
+interface DELETEResponse {
+  id: string;
+}
+export const DELETE = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { session_id: sessionId } = params;
+    const validate = z
+      .object({
+        sessionId: z
+          .string({ required_error: "ID session tidak boleh kosong!" })
+          .min(1, "ID session tidak boleh kosong!"),
+      })
+      .safeParse({ sessionId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // cari session milik user pada perangkat tersebut
+    const query = database
+      .selectFrom("user_sessions")
+      .select("id")
+      .where("id", "=", sessionId)
+      .where("user", "=", linkId<"users">(userId));
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Session dengan ID tersebut tidak ditemukan!"
+      );
+
+    await revokeSessions([result.id]);
+
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
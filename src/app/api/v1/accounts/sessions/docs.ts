@@ -0,0 +1,108 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const accountsSessionsPaths = {
+  "/api/v1/accounts/sessions": {
+    get: {
+      operationId: "getAllSessions",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "mendapatkan daftar perangkat yang sedang login",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["sessions"],
+                properties: {
+                  sessions: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "device_name",
+                        "role",
+                        "is_current",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        device_name: { type: "string" },
+                        role: { type: "string" },
+                        is_current: { type: "boolean" },
+                        last_used_at: { type: "string", format: "datetime" },
+                        expires_at: { type: "string", format: "datetime" },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    delete: {
+      operationId: "deleteOtherSessions",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "mengeluarkan seluruh perangkat lain",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["count"],
+                properties: {
+                  count: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/api/v1/accounts/sessions/{session_id}": {
+    delete: {
+      operationId: "deleteSession",
+      tags: ["Account"],
+      security: swaggerSecurity,
+      summary: "mengeluarkan perangkat tertentu",
+      parameters: [
+        {
+          in: "path",
+          name: "session_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,87 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { revokeUserSessions } from "@/lib/token-revocation";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+
+interface GETResponse {
+  sessions: {
+    id: string;
+    device_name: string;
+    role: string;
+    is_current: boolean;
+    last_used_at?: string;
+    expires_at?: string;
+    created_at: string;
+  }[];
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { sessionId, userId } = authorization;
+
+    // daftar session yang masih dapat digunakan (refresh token belum kedaluwarsa)
+    const query = database
+      .selectFrom("user_sessions as s")
+      .select([
+        "s.id",
+        "s.device_name",
+        "s.role",
+        "s.last_used_at",
+        "s.expires_at",
+        sql<string>`s."xata.createdAt"`.as("created_at"),
+      ])
+      .where("s.user", "=", linkId<"users">(userId))
+      .where("s.refresh_expires_at", ">", sql<Date>`NOW()`)
+      .orderBy("s.last_used_at desc");
+    const result = await query.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      sessions: result.map((it) => ({
+        id: it.id,
+        device_name: it.device_name,
+        role: it.role,
+        is_current: it.id === sessionId,
+        last_used_at: it.last_used_at
+          ? new Date(it.last_used_at).toISOString()
+          : undefined,
+        expires_at: it.expires_at
+          ? new Date(it.expires_at).toISOString()
+          : undefined,
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface DELETEResponse {
+  count: number;
+}
+/**
+ * mengeluarkan seluruh perangkat lain selain perangkat yang
+ * sedang digunakan
+ */
+export const DELETE = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { sessionId, userId } = authorization;
+
+    const result = await revokeUserSessions(userId, sessionId);
+
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      count: result.length,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,134 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminAuditLogsPaths = {
+  "/api/v1/admin/audit-logs": {
+    get: {
+      operationId: "adminGetAllAuditLogs",
+      tags: ["Admin"],
+      summary: "mendapatkan riwayat aksi admin",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "query",
+          name: "page",
+          schema: { type: "number" },
+          required: false,
+          default: 1,
+        },
+        {
+          in: "query",
+          name: "limit",
+          schema: { type: "number" },
+          required: false,
+          default: 10,
+        },
+        {
+          in: "query",
+          name: "action",
+          schema: {
+            type: "string",
+            enum: [
+              "suspend_user",
+              "unsuspend_user",
+              "cancel_job",
+              "cancel_offer",
+              "view_chat_room",
+              "approve_driver_verification",
+              "reject_driver_verification",
+              "resolve_report",
+              "dismiss_report",
+            ],
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "target_id",
+          schema: { type: "string" },
+          required: false,
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["audit_logs", "page_info"],
+                properties: {
+                  audit_logs: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "action",
+                        "target_type",
+                        "target_id",
+                        "note",
+                        "created_at",
+                        "admin",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        action: {
+                          type: "string",
+                          enum: [
+                            "suspend_user",
+                            "unsuspend_user",
+                            "cancel_job",
+                            "cancel_offer",
+                            "view_chat_room",
+                            "approve_driver_verification",
+                            "reject_driver_verification",
+                            "resolve_report",
+                            "dismiss_report",
+                            "resolve_report",
+                            "dismiss_report",
+                          ],
+                          "x-enum-varnames": [
+                            "SuspendUser",
+                            "UnsuspendUser",
+                            "CancelJob",
+                            "CancelOffer",
+                            "ViewChatRoom",
+                            "ApproveDriverVerification",
+                            "RejectDriverVerification",
+                            "ResolveReport",
+                            "DismissReport",
+                          ],
+                        },
+                        target_type: { type: "string" },
+                        target_id: { type: "string" },
+                        note: { type: "string" },
+                        created_at: { type: "string", format: "datetime" },
+                        admin: {
+                          type: "object",
+                          required: ["id", "name", "avatar_url"],
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  page_info: { $ref: swaggerComponentRefs.PageInfo },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,137 @@
+import { AdminAction } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  audit_logs: {
+    id: string;
+    action: string;
+    target_type: string;
+    target_id: string;
+    note: string;
+    created_at: string;
+    admin: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+  }[];
+  page_info: {
+    count: number;
+    page: number;
+    total_pages: number;
+  };
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // validasi query params
+    const searchParams = request.nextUrl.searchParams;
+    const validate = z
+      .object({
+        page: z.coerce
+          .number({ invalid_type_error: "Halaman harus berupa angka!" })
+          .int()
+          .min(1, "Halaman tidak boleh kurang dari 1!")
+          .default(1),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .default(10),
+        action: z
+          .nativeEnum(AdminAction, {
+            errorMap: () => ({ message: "Aksi tidak valid!" }),
+          })
+          .optional(),
+        target_id: z.string().optional(),
+      })
+      .safeParse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        action: searchParams.get("action") || undefined,
+        target_id: searchParams.get("target_id") || undefined,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+    const { page, limit, action, target_id: targetId } = validate.data;
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    let filteredLogsQuery = database.selectFrom("admin_audit_logs as al");
+    if (action)
+      filteredLogsQuery = filteredLogsQuery.where("al.action", "=", action);
+    if (targetId)
+      filteredLogsQuery = filteredLogsQuery.where(
+        "al.target_id",
+        "=",
+        targetId
+      );
+
+    // hitung total data
+    const totalCount = await filteredLogsQuery
+      .select(sql<number>`count(*)`.as("count"))
+      .executeTakeFirst();
+
+    const logsQuery = filteredLogsQuery
+      .innerJoin("users as u", "u.id", "al.admin")
+      .select([
+        "al.id",
+        "al.action",
+        "al.target_type",
+        "al.target_id",
+        "al.note",
+        "u.id as admin_id",
+        "u.name as admin_name",
+        "u.avatar_url as admin_avatar_url",
+        sql<string>`al."xata.createdAt"`.as("created_at"),
+      ])
+      .limit(limit)
+      .offset((page - 1) * limit)
+      .orderBy("created_at", "desc");
+    const logsResult = await logsQuery.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      audit_logs: logsResult.map((it) => ({
+        id: it.id,
+        action: it.action,
+        target_type: it.target_type,
+        target_id: it.target_id,
+        note: it.note,
+        created_at: convertDatetimeToISO(it.created_at),
+        admin: {
+          id: it.admin_id,
+          name: it.admin_name,
+          avatar_url: it.admin_avatar_url,
+        },
+      })),
+      page_info: {
+        count: logsResult.length,
+        page: page,
+        total_pages: Math.ceil(Number(totalCount?.count || 0) / limit),
+      },
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,96 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminChatsRoomsIdMessagesPaths = {
+  "/api/v1/admin/chats/rooms/{room_id}/messages": {
+    get: {
+      operationId: "adminGetAllRoomMessages",
+      tags: ["Admin"],
+      summary: "melihat pesan pada room chat",
+      description:
+        "endpoint ini digunakan oleh admin untuk menindaklanjuti laporan, setiap akses dicatat pada audit log beserta alasannya",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "room_id",
+          required: true,
+          schema: { type: "string" },
+        },
+        {
+          in: "query",
+          name: "reason",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["members", "messages"],
+                properties: {
+                  members: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: ["id", "name", "avatar_url"],
+                      properties: {
+                        id: { type: "string" },
+                        name: { type: "string" },
+                        avatar_url: { type: "string" },
+                      },
+                    },
+                  },
+                  messages: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "type",
+                        "message",
+                        "image_url",
+                        "is_deleted",
+                        "room_id",
+                        "user_id",
+                        "created_at",
+                        "updated_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        type: { type: "string" },
+                        message: { type: "string" },
+                        image_url: { type: "string" },
+                        latitude: { type: "number", format: "float" },
+                        longitude: { type: "number", format: "float" },
+                        edited_at: { type: "string", format: "datetime" },
+                        is_deleted: { type: "boolean" },
+                        room_id: { type: "string" },
+                        user_id: {
+                          type: ["string", "null"],
+                          nullable: "true",
+                        },
+                        created_at: { type: "string", format: "datetime" },
+                        updated_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,144 @@
+import { AdminAction } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { jsonArrayFrom } from "kysely/helpers/postgres";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    room_id: string;
+  };
+}
+
+interface GETResponse {
+  members: {
+    id: string;
+    name: string;
+    avatar_url: string;
+  }[];
+  messages: {
+    id: string;
+    type: string;
+    message: string;
+    image_url: string;
+    latitude?: number;
+    longitude?: number;
+    edited_at?: string;
+    is_deleted: boolean;
+    room_id: string;
+    // kosong untuk pesan system
+    user_id: string | null;
+    created_at: string;
+    updated_at: string;
+  }[];
+}
+export const GET = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { room_id: roomId } = params;
+    const reason = request.nextUrl.searchParams.get("reason");
+
+    const validate = z
+      .object({
+        roomId: z
+          .string({ required_error: "ID ruangan tidak boleh kosong!" })
+          .min(1, "ID ruangan tidak boleh kosong!"),
+        reason: z
+          .string({ required_error: "Alasan tidak boleh kosong!" })
+          .min(1, "Alasan tidak boleh kosong!"),
+      })
+      .safeParse({ roomId, reason: reason ?? undefined });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    /**
+     * admin dapat melihat seluruh pesan pada room chat manapun untuk
+     * menindaklanjuti laporan, termasuk pesan yang sudah dihapus
+     */
+    const query = database
+      .selectFrom("chat_rooms as cr")
+      .select((eb) => [
+        jsonArrayFrom(
+          eb
+            .selectFrom("chat_room_members as crm")
+            .innerJoin("users as u", "u.id", "crm.user")
+            .select(["u.id", "u.name", "u.avatar_url"])
+            .whereRef("crm.room", "=", "cr.id")
+        ).as("members"),
+        jsonArrayFrom(
+          eb
+            .selectFrom("chat_messages as cm")
+            .select([
+              "cm.id",
+              "cm.type",
+              "cm.message",
+              "cm.image_url",
+              "cm.latitude",
+              "cm.longitude",
+              "cm.edited_at",
+              "cm.is_deleted",
+              sql<string>`cm.room`.as("room_id"),
+              sql<string | null>`cm.user`.as("user_id"),
+            ])
+            .select(sql<string>`cm."xata.createdAt"`.as("created_at"))
+            .select(sql<string>`cm."xata.updatedAt"`.as("updated_at"))
+            .whereRef("cm.room", "=", "cr.id")
+            .orderBy("created_at", "asc")
+        ).as("messages"),
+      ])
+      .where("cr.id", "=", roomId);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Ruangan chat dengan ID tersebut tidak ditemukan!"
+      );
+
+    await recordAdminAuditLog({
+      adminId,
+      action: AdminAction.VIEW_CHAT_ROOM,
+      targetType: "chat_rooms",
+      targetId: roomId,
+      note: reason!,
+    });
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      members: result.members,
+      messages: result.messages.map((it) => ({
+        ...it,
+        latitude: it.latitude ?? undefined,
+        longitude: it.longitude ?? undefined,
+        edited_at: it.edited_at
+          ? new Date(it.edited_at).toISOString()
+          : undefined,
+        created_at: convertDatetimeToISO(it.created_at),
+        updated_at: convertDatetimeToISO(it.updated_at),
+      })),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
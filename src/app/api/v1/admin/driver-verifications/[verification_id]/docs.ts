@@ -0,0 +1,74 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminDriverVerificationsIdPaths = {
+  "/api/v1/admin/driver-verifications/{verification_id}": {
+    patch: {
+      operationId: "adminReviewDriverVerification",
+      tags: ["Admin"],
+      summary: "menyetujui atau menolak pengajuan verifikasi driver",
+      description:
+        "pengajuan yang disetujui akan menambahkan role driver ke user, alasan wajib diisi ketika menolak pengajuan",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "verification_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["status"],
+              properties: {
+                status: { type: "string", enum: ["approved", "rejected"] },
+                note: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "status"],
+                properties: {
+                  id: { type: "string" },
+                  status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
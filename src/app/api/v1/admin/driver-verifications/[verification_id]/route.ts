@@ -0,0 +1,148 @@
+import { AdminAction, DriverVerificationStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { notifyUser } from "@/lib/mqtt-notifier";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    verification_id: string;
+  };
+}
+
+interface PATCHBody {
+  status: string;
+  note?: string;
+}
+interface PATCHResponse {
+  id: string;
+  status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { verification_id: verificationId } = params;
+    const { status, note }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        verificationId: z
+          .string({ required_error: "ID verifikasi tidak boleh kosong!" })
+          .min(1, "ID verifikasi tidak boleh kosong!"),
+        status: z.enum(
+          [
+            DriverVerificationStatus.APPROVED,
+            DriverVerificationStatus.REJECTED,
+          ],
+          { errorMap: () => ({ message: "Status tidak valid!" }) }
+        ),
+        note: z.string().optional(),
+      })
+      .refine(
+        (it) =>
+          it.status !== DriverVerificationStatus.REJECTED ||
+          (it.note ?? "").trim().length > 0,
+        {
+          message: "Alasan penolakan tidak boleh kosong!",
+          path: ["note"],
+        }
+      )
+      .safeParse({ verificationId, status, note });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // hanya pengajuan yang masih pending yang dapat diproses
+    const query = database
+      .updateTable("driver_verifications")
+      .set({
+        status,
+        note: note?.trim() ?? "",
+        reviewed_by: linkId<"users">(adminId),
+        reviewed_at: sql<Date>`NOW()`,
+      })
+      .where("id", "=", verificationId)
+      .where("status", "=", DriverVerificationStatus.PENDING)
+      .returning(["id", "status", sql<string>`"user"`.as("user_id")]);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Pengajuan verifikasi tidak ditemukan atau sudah diproses!"
+      );
+    const userId = result.user_id;
+
+    // tambahkan role driver ke user jika pengajuan disetujui
+    if (status === DriverVerificationStatus.APPROVED) {
+      const roleQuery = database
+        .selectFrom("user_roles as ur")
+        .select(["ur.id"])
+        .where("ur.user", "=", linkId<"users">(userId))
+        .where("ur.role", "=", Role.Driver);
+      const roleResult = await roleQuery.executeTakeFirst();
+
+      if (!roleResult)
+        await database
+          .insertInto("user_roles")
+          .values({ user: userId, role: Role.Driver } as any)
+          .returning("id")
+          .executeTakeFirstOrThrow();
+    }
+
+    await recordAdminAuditLog({
+      adminId,
+      action:
+        status === DriverVerificationStatus.APPROVED
+          ? AdminAction.APPROVE_DRIVER_VERIFICATION
+          : AdminAction.REJECT_DRIVER_VERIFICATION,
+      targetType: "driver_verifications",
+      targetId: result.id,
+      note,
+    });
+
+    // beritahu user hasil verifikasi
+    await notifyUser(
+      userId,
+      status === DriverVerificationStatus.APPROVED
+        ? {
+            type: "driver_verification_approved",
+            title: "Verifikasi driver disetujui",
+            body: "Anda sekarang dapat menggunakan role driver",
+            data: { verification_id: result.id },
+          }
+        : {
+            type: "driver_verification_rejected",
+            title: "Verifikasi driver ditolak",
+            body: `Pengajuan role driver Anda ditolak: ${note?.trim()}`,
+            data: { verification_id: result.id },
+          }
+    );
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+      status: result.status,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
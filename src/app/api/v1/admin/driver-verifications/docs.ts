@@ -0,0 +1,104 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminDriverVerificationsPaths = {
+  "/api/v1/admin/driver-verifications": {
+    get: {
+      operationId: "adminGetAllDriverVerifications",
+      tags: ["Admin"],
+      summary: "mendapatkan daftar pengajuan verifikasi driver",
+      description:
+        "pengajuan diurutkan dari yang terlama, default hanya menampilkan pengajuan yang masih pending",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "query",
+          name: "page",
+          schema: { type: "number" },
+          required: false,
+          default: 1,
+        },
+        {
+          in: "query",
+          name: "limit",
+          schema: { type: "number" },
+          required: false,
+          default: 10,
+        },
+        {
+          in: "query",
+          name: "status",
+          schema: {
+            type: "string",
+            enum: ["pending", "approved", "rejected"],
+          },
+          required: false,
+          default: "pending",
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["driver_verifications", "page_info"],
+                properties: {
+                  driver_verifications: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "status",
+                        "student_card_url",
+                        "driving_license_url",
+                        "note",
+                        "user",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        status: { type: "string" },
+                        student_card_url: { type: "string" },
+                        driving_license_url: { type: "string" },
+                        note: { type: "string" },
+                        user: {
+                          type: "object",
+                          required: [
+                            "id",
+                            "name",
+                            "avatar_url",
+                            "email",
+                            "nim",
+                          ],
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
+                            email: { type: "string" },
+                            nim: { type: "string" },
+                          },
+                        },
+                        reviewed_at: { type: "string", format: "datetime" },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                  page_info: { $ref: swaggerComponentRefs.PageInfo },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,141 @@
+import { DriverVerificationStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  driver_verifications: {
+    id: string;
+    status: string;
+    student_card_url: string;
+    driving_license_url: string;
+    note: string;
+    user: {
+      id: string;
+      name: string;
+      email: string;
+      nim: string;
+      avatar_url: string;
+    };
+    reviewed_at?: string;
+    created_at: string;
+  }[];
+  page_info: {
+    count: number;
+    page: number;
+    total_pages: number;
+  };
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // validasi query params
+    const searchParams = request.nextUrl.searchParams;
+    const validate = z
+      .object({
+        page: z.coerce
+          .number({ invalid_type_error: "Halaman harus berupa angka!" })
+          .int()
+          .min(1, "Halaman tidak boleh kurang dari 1!")
+          .default(1),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .default(10),
+        status: z
+          .nativeEnum(DriverVerificationStatus, {
+            errorMap: () => ({ message: "Status tidak valid!" }),
+          })
+          .default(DriverVerificationStatus.PENDING),
+      })
+      .safeParse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        status: searchParams.get("status") || undefined,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+    const { page, limit, status } = validate.data;
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    const filteredVerificationsQuery = database
+      .selectFrom("driver_verifications as dv")
+      .where("dv.status", "=", status);
+
+    // hitung total data
+    const totalCount = await filteredVerificationsQuery
+      .select(sql<number>`count(*)`.as("count"))
+      .executeTakeFirst();
+
+    const verificationsQuery = filteredVerificationsQuery
+      .innerJoin("users as u", "u.id", "dv.user")
+      .select([
+        "dv.id",
+        "dv.status",
+        "dv.student_card_url",
+        "dv.driving_license_url",
+        "dv.note",
+        "dv.reviewed_at",
+        "u.id as user_id",
+        "u.name as user_name",
+        "u.email as user_email",
+        "u.nim as user_nim",
+        "u.avatar_url as user_avatar_url",
+        sql<string>`dv."xata.createdAt"`.as("created_at"),
+      ])
+      .limit(limit)
+      .offset((page - 1) * limit)
+      // pengajuan terlama diproses terlebih dahulu
+      .orderBy("created_at", "asc");
+    const verificationsResult = await verificationsQuery.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      driver_verifications: verificationsResult.map((it) => ({
+        id: it.id,
+        status: it.status,
+        student_card_url: it.student_card_url,
+        driving_license_url: it.driving_license_url,
+        note: it.note,
+        user: {
+          id: it.user_id,
+          name: it.user_name,
+          email: it.user_email,
+          nim: it.user_nim,
+          avatar_url: it.user_avatar_url,
+        },
+        reviewed_at: it.reviewed_at
+          ? new Date(it.reviewed_at).toISOString()
+          : undefined,
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+      page_info: {
+        count: verificationsResult.length,
+        page: page,
+        total_pages: Math.ceil(Number(totalCount?.count || 0) / limit),
+      },
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,66 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminJobsIdCancellationPaths = {
+  "/api/v1/admin/jobs/{job_id}/cancellation": {
+    patch: {
+      operationId: "adminCancelJob",
+      tags: ["Admin"],
+      summary: "membatalkan job oleh admin",
+      description:
+        "job yang belum selesai dapat dibatalkan oleh admin, customer dan driver yang terlibat akan menerima notifikasi",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "job_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["reason"],
+              properties: {
+                reason: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "status"],
+                properties: {
+                  id: { type: "string" },
+                  status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,154 @@
+import {
+  AdminAction,
+  JobApplicationStatus,
+  JobCancellationReason,
+  JobStatus,
+} from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
+import { APIResponse } from "@/lib/models/api-response";
+import { notifyUser } from "@/lib/mqtt-notifier";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    job_id: string;
+  };
+}
+
+interface PATCHBody {
+  reason: string;
+}
+interface PATCHResponse {
+  id: string;
+  status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { job_id: jobId } = params;
+    const { reason }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+        reason: z
+          .string({ required_error: "Alasan tidak boleh kosong!" })
+          .min(1, "Alasan tidak boleh kosong!"),
+      })
+      .safeParse({ jobId, reason });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // validasi perpindahan status job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select([
+        "j.status",
+        sql<string>`j.customer`.as("customer_id"),
+        sql<string | null>`j.freelancer`.as("freelancer_id"),
+        sql<number>`j."xata.version"`.as("version"),
+      ])
+      .where("j.id", "=", jobId);
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.CANCELLED,
+      Role.Admin
+    );
+
+    /**
+     * cancel job beserta riwayat statusnya, lamaran yang masih pending
+     * otomatis ditolak di dalam transaksi yang sama
+     */
+    const updated = await updateJobStatus({
+      jobId,
+      jobVersion: jobResult.version,
+      actorId: adminId,
+      role: Role.Admin,
+      previousStatus: currentStatus,
+      newStatus: JobStatus.CANCELLED,
+      fields: {
+        cancellation_reason: JobCancellationReason.OTHER,
+        cancellation_note: reason,
+      },
+      applications: {
+        from: JobApplicationStatus.PENDING,
+        to: JobApplicationStatus.REJECTED,
+      },
+    });
+
+    if (!updated)
+      return APIResponse.respondWithConflict(
+        "Status pekerjaan telah berubah, silahkan coba lagi!"
+      );
+
+    await announceJobStatus(jobId, JobStatus.CANCELLED);
+
+    await recordAdminAuditLog({
+      adminId,
+      action: AdminAction.CANCEL_JOB,
+      targetType: "jobs",
+      targetId: jobId,
+      note: reason,
+    });
+
+    // beritahu customer dan driver yang terlibat
+    const notification = {
+      type: "job_cancelled",
+      title: "Pesanan dibatalkan",
+      body: "Pesanan dibatalkan oleh admin",
+      data: { job_id: jobId },
+    };
+    await Promise.all(
+      [jobResult.customer_id, jobResult.freelancer_id]
+        .filter((it): it is string => !!it)
+        .map((it) => notifyUser(it, notification))
+    );
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: jobId,
+      status: JobStatus.CANCELLED,
+    });
+  } catch (e) {
+    console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,59 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminOffersIdCancellationPaths = {
+  "/api/v1/admin/offers/{offer_id}/cancellation": {
+    patch: {
+      operationId: "adminCancelOffer",
+      tags: ["Admin"],
+      summary: "membatalkan offer oleh admin",
+      description:
+        "applicant yang belum selesai otomatis ditolak, driver dan customer yang terlibat akan menerima notifikasi",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "offer_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["reason"],
+              properties: {
+                reason: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "offer_status"],
+                properties: {
+                  id: { type: "string" },
+                  offer_status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,130 @@
+import {
+  AdminAction,
+  ApplicantStatus,
+  OfferStatus,
+} from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { notifyUser } from "@/lib/mqtt-notifier";
+import { announceApplicantStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    offer_id: string;
+  };
+}
+
+interface PATCHBody {
+  reason: string;
+}
+interface PATCHResponse {
+  id: string;
+  offer_status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { offer_id: offerId } = params;
+    const { reason }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        offerId: z
+          .string({ required_error: "ID penawaran tidak boleh kosong!" })
+          .min(1, "ID penawaran tidak boleh kosong!"),
+        reason: z
+          .string({ required_error: "Alasan tidak boleh kosong!" })
+          .min(1, "Alasan tidak boleh kosong!"),
+      })
+      .safeParse({ offerId, reason });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // cancel offer
+    const query = database
+      .updateTable("offers")
+      .set({ offer_status: OfferStatus.CANCELLED })
+      .where("id", "=", offerId)
+      .where("offer_status", "!=", OfferStatus.CANCELLED)
+      .returning([
+        "id",
+        "offer_status",
+        sql<string>`freelancer`.as("freelancer_id"),
+      ]);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Penawaran dengan ID tersebut tidak ditemukan atau sudah dibatalkan!"
+      );
+
+    await recordAdminAuditLog({
+      adminId,
+      action: AdminAction.CANCEL_OFFER,
+      targetType: "offers",
+      targetId: offerId,
+      note: reason,
+    });
+
+    // applicant yang belum selesai otomatis ditolak
+    const applicantsQuery = database
+      .updateTable("offer_applicants")
+      .set({ applicant_status: ApplicantStatus.REJECTED })
+      .where("offer", "=", linkId<"offers">(offerId))
+      .where("applicant_status", "not in", [
+        ApplicantStatus.DONE,
+        ApplicantStatus.REJECTED,
+      ])
+      .returning(["id", sql<string>`customer`.as("customer_id")]);
+    const applicantsResult = await applicantsQuery.execute();
+
+    // pesan system untuk applicant yang sudah memiliki room chat
+    await Promise.all(
+      applicantsResult.map((it) =>
+        announceApplicantStatus(it.id, ApplicantStatus.REJECTED)
+      )
+    );
+
+    // beritahu driver pemilik offer dan customer yang terlibat
+    const notification = {
+      type: "offer_cancelled",
+      title: "Penawaran dibatalkan",
+      body: "Penawaran dibatalkan oleh admin",
+      data: { offer_id: offerId },
+    };
+    await Promise.all(
+      [result.freelancer_id, ...applicantsResult.map((it) => it.customer_id)]
+        .filter((it) => it)
+        .map((it) => notifyUser(it, notification))
+    );
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+      offer_status: result.offer_status,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
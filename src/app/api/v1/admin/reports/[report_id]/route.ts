@@ -0,0 +1,99 @@
+import { AdminAction, UserReportStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    report_id: string;
+  };
+}
+
+interface PATCHBody {
+  status: string;
+  note?: string;
+}
+interface PATCHResponse {
+  id: string;
+  status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { report_id: reportId } = params;
+    const { status, note }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        reportId: z
+          .string({ required_error: "ID laporan tidak boleh kosong!" })
+          .min(1, "ID laporan tidak boleh kosong!"),
+        status: z.enum(
+          [UserReportStatus.RESOLVED, UserReportStatus.DISMISSED],
+          { errorMap: () => ({ message: "Status tidak valid!" }) }
+        ),
+        note: z.string().optional(),
+      })
+      .safeParse({ reportId, status, note });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // hanya laporan yang masih terbuka yang dapat diproses
+    const query = database
+      .updateTable("user_reports")
+      .set({
+        status,
+        admin_note: note?.trim() ?? "",
+        reviewed_by: linkId<"users">(adminId),
+        reviewed_at: sql<Date>`NOW()`,
+      })
+      .where("id", "=", reportId)
+      .where("status", "=", UserReportStatus.OPEN)
+      .returning(["id", "status"]);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Laporan tidak ditemukan atau sudah diproses!"
+      );
+
+    await recordAdminAuditLog({
+      adminId,
+      action:
+        status === UserReportStatus.RESOLVED
+          ? AdminAction.RESOLVE_REPORT
+          : AdminAction.DISMISS_REPORT,
+      targetType: "user_reports",
+      targetId: result.id,
+      note,
+    });
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+      status: result.status,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
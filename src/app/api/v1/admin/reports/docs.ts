@@ -0,0 +1,172 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+const userSummary = {
+  type: "object",
+  required: ["id", "name", "avatar_url"],
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    avatar_url: { type: "string" },
+  },
+};
+
+export const adminReportsPaths = {
+  "/api/v1/admin/reports": {
+    get: {
+      operationId: "adminGetAllReports",
+      tags: ["Admin"],
+      summary: "mendapatkan daftar laporan user",
+      description:
+        "laporan diurutkan dari yang terlama, default hanya menampilkan laporan yang masih terbuka",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "query",
+          name: "page",
+          schema: { type: "number" },
+          required: false,
+          default: 1,
+        },
+        {
+          in: "query",
+          name: "limit",
+          schema: { type: "number" },
+          required: false,
+          default: 10,
+        },
+        {
+          in: "query",
+          name: "status",
+          schema: { type: "string", enum: ["open", "resolved", "dismissed"] },
+          required: false,
+          default: "open",
+        },
+        {
+          in: "query",
+          name: "user_id",
+          description: "filter berdasarkan user yang dilaporkan",
+          schema: { type: "string" },
+          required: false,
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["reports", "page_info"],
+                properties: {
+                  reports: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "reason",
+                        "status",
+                        "admin_note",
+                        "reporter",
+                        "reported_user",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        reason: { type: "string" },
+                        status: { type: "string" },
+                        admin_note: { type: "string" },
+                        reporter: userSummary,
+                        reported_user: userSummary,
+                        job_id: { type: "string" },
+                        offer_id: { type: "string" },
+                        chat_message: {
+                          type: "object",
+                          required: ["id", "message"],
+                          properties: {
+                            id: { type: "string" },
+                            message: { type: "string" },
+                          },
+                        },
+                        reviewed_at: { type: "string", format: "datetime" },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                  page_info: { $ref: swaggerComponentRefs.PageInfo },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/api/v1/admin/reports/{report_id}": {
+    patch: {
+      operationId: "adminReviewReport",
+      tags: ["Admin"],
+      summary: "menyelesaikan atau mengabaikan laporan user",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "report_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["status"],
+              properties: {
+                status: { type: "string", enum: ["resolved", "dismissed"] },
+                note: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "status"],
+                properties: {
+                  id: { type: "string" },
+                  status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,171 @@
+import { UserReportStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  reports: {
+    id: string;
+    reason: string;
+    status: string;
+    admin_note: string;
+    reporter: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+    reported_user: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+    job_id?: string;
+    offer_id?: string;
+    chat_message?: {
+      id: string;
+      message: string;
+    };
+    reviewed_at?: string;
+    created_at: string;
+  }[];
+  page_info: {
+    count: number;
+    page: number;
+    total_pages: number;
+  };
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // validasi query params
+    const searchParams = request.nextUrl.searchParams;
+    const validate = z
+      .object({
+        page: z.coerce
+          .number({ invalid_type_error: "Halaman harus berupa angka!" })
+          .int()
+          .min(1, "Halaman tidak boleh kurang dari 1!")
+          .default(1),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .default(10),
+        status: z
+          .nativeEnum(UserReportStatus, {
+            errorMap: () => ({ message: "Status tidak valid!" }),
+          })
+          .default(UserReportStatus.OPEN),
+        user_id: z.string().optional(),
+      })
+      .safeParse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        status: searchParams.get("status") || undefined,
+        user_id: searchParams.get("user_id") || undefined,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+    const { page, limit, status, user_id: reportedId } = validate.data;
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // filter laporan berdasarkan status dan user yang dilaporkan
+    let filteredReportsQuery = database
+      .selectFrom("user_reports as ur")
+      .where("ur.status", "=", status);
+    if (reportedId)
+      filteredReportsQuery = filteredReportsQuery.where(
+        "ur.reported_user",
+        "=",
+        linkId<"users">(reportedId)
+      );
+
+    // hitung total data
+    const totalCount = await filteredReportsQuery
+      .select(sql<number>`count(*)`.as("count"))
+      .executeTakeFirst();
+
+    const reportsQuery = filteredReportsQuery
+      .innerJoin("users as rp", "rp.id", "ur.reporter")
+      .innerJoin("users as rd", "rd.id", "ur.reported_user")
+      .leftJoin("chat_messages as cm", "cm.id", "ur.chat_message")
+      .select([
+        "ur.id",
+        "ur.reason",
+        "ur.status",
+        "ur.admin_note",
+        sql<string | null>`ur.job`.as("job_id"),
+        sql<string | null>`ur.offer`.as("offer_id"),
+        "ur.reviewed_at",
+        "rp.id as reporter_id",
+        "rp.name as reporter_name",
+        "rp.avatar_url as reporter_avatar_url",
+        "rd.id as reported_user_id",
+        "rd.name as reported_user_name",
+        "rd.avatar_url as reported_user_avatar_url",
+        "cm.id as chat_message_id",
+        "cm.message as chat_message",
+        sql<string>`ur."xata.createdAt"`.as("created_at"),
+      ])
+      .limit(limit)
+      .offset((page - 1) * limit)
+      // laporan terlama diproses terlebih dahulu
+      .orderBy("created_at", "asc");
+    const reportsResult = await reportsQuery.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      reports: reportsResult.map((it) => ({
+        id: it.id,
+        reason: it.reason,
+        status: it.status,
+        admin_note: it.admin_note,
+        reporter: {
+          id: it.reporter_id,
+          name: it.reporter_name,
+          avatar_url: it.reporter_avatar_url,
+        },
+        reported_user: {
+          id: it.reported_user_id,
+          name: it.reported_user_name,
+          avatar_url: it.reported_user_avatar_url,
+        },
+        job_id: it.job_id ?? undefined,
+        offer_id: it.offer_id ?? undefined,
+        chat_message: it.chat_message_id
+          ? { id: it.chat_message_id, message: it.chat_message ?? "" }
+          : undefined,
+        reviewed_at: it.reviewed_at
+          ? new Date(it.reviewed_at).toISOString()
+          : undefined,
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+      page_info: {
+        count: reportsResult.length,
+        page: page,
+        total_pages: Math.ceil(Number(totalCount?.count || 0) / limit),
+      },
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,94 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminUsersIdSuspensionPaths = {
+  "/api/v1/admin/users/{user_id}/suspension": {
+    patch: {
+      operationId: "adminSuspendUser",
+      tags: ["Admin"],
+      summary: "menangguhkan akun user",
+      description:
+        "user yang ditangguhkan tidak dapat login dan seluruh token miliknya tidak lagi valid",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "user_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["reason"],
+              properties: {
+                reason: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+    delete: {
+      operationId: "adminUnsuspendUser",
+      tags: ["Admin"],
+      summary: "mengaktifkan kembali akun user yang ditangguhkan",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "user_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
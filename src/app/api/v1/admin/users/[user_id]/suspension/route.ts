@@ -0,0 +1,161 @@
+import { AdminAction } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { recordAdminAuditLog } from "@/lib/admin-audit-log";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { revokeUserSessions } from "@/lib/token-revocation";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    user_id: string;
+  };
+}
+
+interface PATCHBody {
+  reason: string;
+}
+interface PATCHResponse {
+  id: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { user_id: userId } = params;
+    const { reason }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        userId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+        reason: z
+          .string({ required_error: "Alasan tidak boleh kosong!" })
+          .min(1, "Alasan tidak boleh kosong!"),
+      })
+      .safeParse({ userId, reason });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    if (userId === adminId)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak dapat menangguhkan akun Anda sendiri!"
+      );
+
+    // tangguhkan akun user
+    const query = database
+      .updateTable("users")
+      .set({
+        suspended_at: sql<Date>`NOW()`,
+        suspension_reason: reason,
+      })
+      .where("id", "=", userId)
+      .where("suspended_at", "is", null)
+      .returning("id");
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "User dengan ID tersebut tidak ditemukan atau sudah ditangguhkan!"
+      );
+
+    // keluarkan user dari seluruh perangkat
+    await revokeUserSessions(userId);
+
+    await recordAdminAuditLog({
+      adminId,
+      action: AdminAction.SUSPEND_USER,
+      targetType: "users",
+      targetId: userId,
+      note: reason,
+    });
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface DELETEResponse {
+  id: string;
+}
+export const DELETE = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { user_id: userId } = params;
+    const validate = z
+      .object({
+        userId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+      })
+      .safeParse({ userId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId: adminId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // aktifkan kembali akun user
+    const query = database
+      .updateTable("users")
+      .set({ suspended_at: null, suspension_reason: "" } as any)
+      .where("id", "=", userId)
+      .where("suspended_at", "is not", null)
+      .returning("id");
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "User dengan ID tersebut tidak ditemukan atau tidak sedang ditangguhkan!"
+      );
+
+    await recordAdminAuditLog({
+      adminId,
+      action: AdminAction.UNSUSPEND_USER,
+      targetType: "users",
+      targetId: userId,
+    });
+
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
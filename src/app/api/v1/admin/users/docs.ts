@@ -0,0 +1,98 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const adminUsersPaths = {
+  "/api/v1/admin/users": {
+    get: {
+      operationId: "adminGetAllUsers",
+      tags: ["Admin"],
+      summary: "mendapatkan daftar user",
+      description:
+        "endpoint ini digunakan oleh admin untuk mencari user berdasarkan nama atau email",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "query",
+          name: "page",
+          schema: { type: "number" },
+          required: false,
+          default: 1,
+        },
+        {
+          in: "query",
+          name: "limit",
+          schema: { type: "number" },
+          required: false,
+          default: 10,
+        },
+        {
+          in: "query",
+          name: "search",
+          schema: { type: "string" },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "role",
+          schema: { type: "string", enum: ["customer", "driver", "admin"] },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "suspended",
+          schema: { type: "string", enum: ["true", "false"] },
+          required: false,
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["users", "page_info"],
+                properties: {
+                  users: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "name",
+                        "avatar_url",
+                        "email",
+                        "gender",
+                        "roles",
+                        "suspension_reason",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        name: { type: "string" },
+                        avatar_url: { type: "string" },
+                        email: { type: "string" },
+                        gender: { type: "string" },
+                        roles: { type: "array", items: { type: "string" } },
+                        suspended_at: { type: "string", format: "datetime" },
+                        suspension_reason: { type: "string" },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                  page_info: { $ref: swaggerComponentRefs.PageInfo },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,154 @@
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface GETResponse {
+  users: {
+    id: string;
+    name: string;
+    email: string;
+    gender: string;
+    avatar_url: string;
+    roles: string[];
+    suspended_at?: string;
+    suspension_reason: string;
+    created_at: string;
+  }[];
+  page_info: {
+    count: number;
+    page: number;
+    total_pages: number;
+  };
+}
+export const GET = async (request: NextRequest) => {
+  try {
+    // validasi query params
+    const searchParams = request.nextUrl.searchParams;
+    const validate = z
+      .object({
+        page: z.coerce
+          .number({ invalid_type_error: "Halaman harus berupa angka!" })
+          .int()
+          .min(1, "Halaman tidak boleh kurang dari 1!")
+          .default(1),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .default(10),
+        search: z.string().trim().optional(),
+        role: z
+          .nativeEnum(Role, {
+            errorMap: () => ({ message: "Role tidak valid!" }),
+          })
+          .optional(),
+        suspended: z.enum(["true", "false"]).optional(),
+      })
+      .safeParse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        search: searchParams.get("search") || undefined,
+        role: searchParams.get("role") || undefined,
+        suspended: searchParams.get("suspended") || undefined,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+    const { page, limit, search, role: filterRole, suspended } = validate.data;
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Admin)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // filter user berdasarkan nama/email, role dan status suspend
+    let filteredUsersQuery = database.selectFrom("users as u");
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+      filteredUsersQuery = filteredUsersQuery.where((eb) =>
+        eb.or([eb("u.name", "ilike", pattern), eb("u.email", "ilike", pattern)])
+      );
+    }
+    if (filterRole)
+      filteredUsersQuery = filteredUsersQuery.where((eb) =>
+        eb.exists(
+          eb
+            .selectFrom("user_roles as ur")
+            .select("ur.id")
+            .whereRef("ur.user", "=", "u.id")
+            .where("ur.role", "=", filterRole)
+        )
+      );
+    if (suspended)
+      filteredUsersQuery = filteredUsersQuery.where(
+        "u.suspended_at",
+        suspended === "true" ? "is not" : "is",
+        null
+      );
+
+    // hitung total data
+    const totalCount = await filteredUsersQuery
+      .select(sql<number>`count(*)`.as("count"))
+      .executeTakeFirst();
+
+    const usersQuery = filteredUsersQuery
+      .select((eb) => [
+        "u.id",
+        "u.name",
+        "u.email",
+        "u.gender",
+        "u.avatar_url",
+        "u.suspended_at",
+        "u.suspension_reason",
+        sql<string>`u."xata.createdAt"`.as("created_at"),
+        eb
+          .selectFrom("user_roles as ur")
+          .select(sql<string[]>`array_agg(ur.role)`.as("roles"))
+          .whereRef("ur.user", "=", "u.id")
+          .as("roles"),
+      ])
+      .limit(limit)
+      .offset((page - 1) * limit)
+      .orderBy("created_at", "desc");
+    const usersResult = await usersQuery.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      users: usersResult.map((it) => ({
+        id: it.id,
+        name: it.name,
+        email: it.email,
+        gender: it.gender,
+        avatar_url: it.avatar_url,
+        roles: it.roles ?? [],
+        suspended_at: it.suspended_at
+          ? new Date(it.suspended_at).toISOString()
+          : undefined,
+        suspension_reason: it.suspension_reason,
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+      page_info: {
+        count: usersResult.length,
+        page: page,
+        total_pages: Math.ceil(Number(totalCount?.count || 0) / limit),
+      },
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
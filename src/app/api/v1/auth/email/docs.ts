@@ -0,0 +1,94 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const authEmailPaths = {
+  "/api/v1/auth/email/verification": {
+    post: {
+      operationId: "sendEmailVerification",
+      tags: ["Auth"],
+      security: swaggerSecurity,
+      description:
+        "mengirim ulang email verifikasi untuk user yang sedang login",
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["message"],
+                properties: {
+                  message: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "409": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.ConflictError,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/api/v1/auth/email/verify": {
+    post: {
+      operationId: "verifyEmail",
+      tags: ["Auth"],
+      description:
+        "memverifikasi alamat email menggunakan token dari email, token hanya dapat digunakan 1 kali",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["token"],
+              properties: {
+                token: {
+                  type: "string",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "email_verified_at"],
+                properties: {
+                  id: {
+                    type: "string",
+                  },
+                  email_verified_at: {
+                    type: "string",
+                    format: "datetime",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "404": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.NotFoundError,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
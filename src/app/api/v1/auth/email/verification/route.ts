@@ -0,0 +1,46 @@
+import { AccountTokenType } from "@/constants/constants";
+import { createAccountToken } from "@/lib/account-token";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { sendEmailVerificationMail } from "@/lib/mail/account-mails";
+import { APIResponse } from "@/lib/models/api-response";
+import { NextRequest } from "next/server";
+
+interface POSTResponse {
+  message: string;
+}
+/**
+ * mengirim ulang email verifikasi untuk user yang sedang login
+ */
+export const POST = async (request: NextRequest) => {
+  try {
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    const userQuery = database
+      .selectFrom("users as u")
+      .select(["u.id", "u.name", "u.email", "u.email_verified_at"])
+      .where("u.id", "=", userId);
+    const userResult = await userQuery.executeTakeFirstOrThrow();
+
+    if (userResult.email_verified_at)
+      return APIResponse.respondWithConflict(
+        "Alamat email sudah diverifikasi sebelumnya!"
+      );
+
+    const token = await createAccountToken(
+      userResult.id,
+      AccountTokenType.EMAIL_VERIFICATION
+    );
+    await sendEmailVerificationMail(userResult.email, userResult.name, token);
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      message: "Email verifikasi berhasil dikirimkan!",
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
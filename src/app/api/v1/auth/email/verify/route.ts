@@ -0,0 +1,59 @@
+import { AccountTokenType } from "@/constants/constants";
+import { consumeAccountToken } from "@/lib/account-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { sql } from "kysely";
+import { z } from "zod";
+
+interface POSTBody {
+  token: string;
+}
+interface POSTResponse {
+  id: string;
+  email_verified_at: string;
+}
+export async function POST(request: Request) {
+  try {
+    // validasi request dari user
+    const { token }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        token: z
+          .string({ required_error: "Token tidak boleh kosong!" })
+          .min(1, "Token tidak boleh kosong!"),
+      })
+      .safeParse({ token });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // token hanya dapat digunakan 1 kali
+    const userId = await consumeAccountToken(
+      token,
+      AccountTokenType.EMAIL_VERIFICATION
+    );
+    if (!userId)
+      return APIResponse.respondWithNotFound(
+        "Token tidak valid atau sudah kedaluwarsa!"
+      );
+
+    const query = database
+      .updateTable("users")
+      .set({ email_verified_at: sql<Date>`NOW()` })
+      .where("id", "=", userId)
+      .returning(["id", "email_verified_at"]);
+    const result = await query.executeTakeFirstOrThrow();
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: result.id,
+      email_verified_at: new Date(result.email_verified_at!).toISOString(),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+}
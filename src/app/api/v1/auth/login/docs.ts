@@ -19,6 +19,11 @@ export const authLoginPaths = {
                 password: {
                   type: "string",
                 },
+                device_name: {
+                  type: "string",
+                  description:
+                    "nama perangkat yang digunakan, default header User-Agent",
+                },
                 role: {
                   type: "string",
                 },
@@ -40,8 +45,11 @@ export const authLoginPaths = {
                   "name",
                   "email",
                   "token",
+                  "refresh_token",
+                  "expires_at",
                   "role",
                   "gender",
+                  "avatar_url",
                 ],
                 properties: {
                   need_role: {
@@ -65,12 +73,22 @@ export const authLoginPaths = {
                   token: {
                     type: "string",
                   },
+                  refresh_token: {
+                    type: "string",
+                  },
+                  expires_at: {
+                    type: "string",
+                    format: "datetime",
+                  },
                   role: {
                     type: "string",
                   },
                   gender: {
                     type: "string",
                   },
+                  avatar_url: {
+                    type: "string",
+                  },
                 },
               },
             },
@@ -85,6 +103,15 @@ export const authLoginPaths = {
             },
           },
         },
+        "403": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.ForbiddenError,
+              },
+            },
+          },
+        },
         "404": {
           content: {
             "application/json": {
@@ -94,6 +121,15 @@ export const authLoginPaths = {
             },
           },
         },
+        "429": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.TooManyRequestsError,
+              },
+            },
+          },
+        },
         "500": {
           content: {
             "application/json": {
@@ -1,7 +1,13 @@
 import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import {
+  getLoginRetryAfter,
+  getLoginThrottleKeys,
+  recordLoginFailure,
+  resetLoginAttempts,
+} from "@/lib/rate-limit/login-throttle";
+import { createSession, getDeviceName } from "@/lib/session";
 import { compare } from "bcrypt";
-import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 
 interface POSTResponse {
@@ -11,14 +17,26 @@ interface POSTResponse {
   name: string;
   email: string;
   token: string;
+  refresh_token: string;
+  expires_at: string;
   role: string;
   gender: string;
+  avatar_url: string;
 }
 
 export async function POST(request: Request) {
   try {
     const json = await request.json();
-    const { email, password, role } = json;
+    const { email, password, role, device_name: deviceName } = json;
+
+    // batasi percobaan login berdasarkan ip dan email
+    const throttleKeys = getLoginThrottleKeys(request, email);
+    const retryAfter = await getLoginRetryAfter(throttleKeys);
+    if (retryAfter)
+      return APIResponse.respondWithTooManyRequests(
+        `Terlalu banyak percobaan login, coba lagi dalam ${retryAfter} detik!`,
+        retryAfter
+      );
 
     if (role) {
       /**
@@ -50,7 +68,6 @@ export async function POST(request: Request) {
       const userQuery = database
         .selectFrom("users as u")
         .innerJoin("user_roles as ur", "ur.user", "u.id")
-        .leftJoin("user_sessions as s", "s.user", "u.id")
         .select([
           "u.id",
           "u.name",
@@ -58,7 +75,8 @@ export async function POST(request: Request) {
           "u.password",
           "ur.role",
           "u.gender",
-          "s.token",
+          "u.avatar_url",
+          "u.suspended_at",
         ])
         .where("u.email", "=", email)
         .where("ur.role", "=", role);
@@ -68,58 +86,40 @@ export async function POST(request: Request) {
       if (
         !userResult ||
         (userResult && !(await compare(password, userResult.password)))
-      )
+      ) {
+        await recordLoginFailure(throttleKeys);
         return APIResponse.respondWithNotFound(
           "Alamat email atau kata sandi tidak valid!"
         );
-
-      // cek apakah user sedang memiliki session
-      const newToken = uuidv4();
-      if (userResult.token) {
-        const sessionQuery = database
-          .updateTable("user_sessions")
-          .where("user", "=", userResult.id as any)
-          .set({
-            token: newToken,
-            role,
-          })
-          .returning("token");
-        const sessionResult = await sessionQuery.executeTakeFirst();
-
-        if (sessionResult)
-          return APIResponse.respondWithSuccess<POSTResponse>({
-            need_role: false,
-            roles: [],
-            id: userResult.id,
-            name: userResult.name,
-            email: userResult.email,
-            token: sessionResult.token,
-            role: userResult.role,
-            gender: userResult.gender,
-          });
-      } else {
-        const sessionQuery = database
-          .insertInto("user_sessions")
-          .values({
-            token: newToken,
-            role,
-            user: userResult.id,
-          } as any)
-          .returning("token");
-        const sessionResult = await sessionQuery.executeTakeFirst();
-
-        if (sessionResult)
-          return APIResponse.respondWithSuccess<POSTResponse>({
-            need_role: false,
-            roles: [],
-            id: userResult.id,
-            name: userResult.name,
-            email: userResult.email,
-            token: sessionResult.token,
-            role: userResult.role,
-            gender: userResult.gender,
-          });
       }
+      await resetLoginAttempts(throttleKeys);
+
+      // validasi jika akun sedang ditangguhkan oleh admin
+      if (userResult.suspended_at)
+        return APIResponse.respondWithForbidden(
+          "Akun Anda sedang ditangguhkan!"
+        );
+
+      // buat session baru untuk perangkat ini
+      const session = await createSession({
+        userId: userResult.id,
+        role,
+        deviceName: getDeviceName(request, deviceName),
+      });
+
+      return APIResponse.respondWithSuccess<POSTResponse>({
+        need_role: false,
+        roles: [],
+        id: userResult.id,
+        name: userResult.name,
+        email: userResult.email,
+        token: session.token,
+        refresh_token: session.refresh_token,
+        expires_at: session.expires_at,
+        role: userResult.role,
+        gender: userResult.gender,
+        avatar_url: userResult.avatar_url,
+      });
     } else {
       /**
        * percobaan pertama
@@ -150,7 +150,6 @@ export async function POST(request: Request) {
       const usersQuery = database
         .selectFrom("users as u")
         .innerJoin("user_roles as ur", "ur.user", "u.id")
-        .leftJoin("user_sessions as s", "s.user", "u.id")
         .select([
           "u.id",
           "u.name",
@@ -158,7 +157,8 @@ export async function POST(request: Request) {
           "u.password",
           "ur.role",
           "u.gender",
-          "s.token",
+          "u.avatar_url",
+          "u.suspended_at",
         ])
         .where("u.email", "=", email);
       const usersResult = await usersQuery.execute();
@@ -168,10 +168,19 @@ export async function POST(request: Request) {
         usersResult.length === 0 ||
         (usersResult.length > 0 &&
           !(await compare(password, usersResult[0].password)))
-      )
+      ) {
+        await recordLoginFailure(throttleKeys);
         return APIResponse.respondWithNotFound(
           "Alamat email atau kata sandi tidak valid!"
         );
+      }
+      await resetLoginAttempts(throttleKeys);
+
+      // validasi jika akun sedang ditangguhkan oleh admin
+      if (usersResult[0].suspended_at)
+        return APIResponse.respondWithForbidden(
+          "Akun Anda sedang ditangguhkan!"
+        );
 
       // validasi jika role > 1, maka minta user untuk login percobaan kedua
       if (usersResult.length > 1)
@@ -182,65 +191,37 @@ export async function POST(request: Request) {
           name: "",
           email: "",
           token: "",
+          refresh_token: "",
+          expires_at: "",
           role: "",
           gender: "",
+          avatar_url: "",
         });
 
       // jika len result === 1, alias user hanya punya 1 role saja
       const firstUser = usersResult[0];
-      const newToken = uuidv4();
-
-      // cek apakah user sedang memiliki session
-      if (firstUser.token) {
-        const sessionQuery = database
-          .updateTable("user_sessions")
-          .where("user", "=", firstUser.id as any)
-          .set({
-            token: newToken,
-            role: firstUser.role,
-          })
-          .returning("token");
-        const sessionResult = await sessionQuery.executeTakeFirst();
-
-        if (sessionResult)
-          return APIResponse.respondWithSuccess<POSTResponse>({
-            need_role: false,
-            roles: [],
-            id: firstUser.id,
-            name: firstUser.name,
-            email: firstUser.email,
-            token: sessionResult.token,
-            role: firstUser.role,
-            gender: firstUser.gender,
-          });
-      } else {
-        const sessionQuery = database
-          .insertInto("user_sessions")
-          .values({
-            token: newToken,
-            role: firstUser.role,
-            user: firstUser.id,
-          } as any)
-          .returning("token");
-        const sessionResult = await sessionQuery.executeTakeFirst();
-
-        if (sessionResult)
-          return APIResponse.respondWithSuccess<POSTResponse>({
-            need_role: false,
-            roles: [],
-            id: firstUser.id,
-            name: firstUser.name,
-            email: firstUser.email,
-            token: sessionResult.token,
-            role: firstUser.role,
-            gender: firstUser.gender,
-          });
-      }
-    }
 
-    return APIResponse.respondWithServerError(
-      "Terjadi kesalahan tak terduga pada server!"
-    );
+      // buat session baru untuk perangkat ini
+      const session = await createSession({
+        userId: firstUser.id,
+        role: firstUser.role,
+        deviceName: getDeviceName(request, deviceName),
+      });
+
+      return APIResponse.respondWithSuccess<POSTResponse>({
+        need_role: false,
+        roles: [],
+        id: firstUser.id,
+        name: firstUser.name,
+        email: firstUser.email,
+        token: session.token,
+        refresh_token: session.refresh_token,
+        expires_at: session.expires_at,
+        role: firstUser.role,
+        gender: firstUser.gender,
+        avatar_url: firstUser.avatar_url,
+      });
+    }
   } catch (e) {
     console.log(e);
     return APIResponse.respondWithServerError(
@@ -1,6 +1,6 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import { revokeSessions } from "@/lib/token-revocation";
 import { NextRequest } from "next/server";
 
 interface DELETEResponse {
@@ -14,21 +14,13 @@ export async function DELETE(request: NextRequest) {
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
 
-    const deleteQuery = database
-      .deleteFrom("user_sessions")
-      .where("token", "=", authorization.token)
-      .returning("id");
-    const deleteResult = await deleteQuery.executeTakeFirst();
+    // cabut token akses dan hapus session yang sedang digunakan
+    await revokeSessions([authorization.sessionId]);
 
-    if (deleteResult)
-      return APIResponse.respondWithSuccess<DELETEResponse>({
-        success: true,
-        message: "Berhasil keluar dari akun!",
-      });
-
-    return APIResponse.respondWithServerError(
-      "Terjadi kesalahan tak terduga pada server!"
-    );
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      success: true,
+      message: "Berhasil keluar dari akun!",
+    });
   } catch (e) {
     return APIResponse.respondWithServerError(
       "Terjadi kesalahan tak terduga pada server!"
@@ -0,0 +1,116 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+
+export const authPasswordPaths = {
+  "/api/v1/auth/password/forgot": {
+    post: {
+      operationId: "forgotPassword",
+      tags: ["Auth"],
+      description:
+        "mengirim tautan reset kata sandi ke email user, response selalu sama baik email terdaftar maupun tidak",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["email"],
+              properties: {
+                email: {
+                  type: "string",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["message"],
+                properties: {
+                  message: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.BadRequestError,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  "/api/v1/auth/password/reset": {
+    post: {
+      operationId: "resetPassword",
+      tags: ["Auth"],
+      description:
+        "mengatur ulang kata sandi menggunakan token dari email, token hanya dapat digunakan 1 kali dan seluruh session user akan dikeluarkan",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["token", "password"],
+              properties: {
+                token: {
+                  type: "string",
+                },
+                password: {
+                  type: "string",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.BadRequestError,
+              },
+            },
+          },
+        },
+        "404": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.NotFoundError,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,61 @@
+import { AccountTokenType } from "@/constants/constants";
+import { createAccountToken } from "@/lib/account-token";
+import { database } from "@/lib/database";
+import { sendPasswordResetMail } from "@/lib/mail/account-mails";
+import { APIResponse } from "@/lib/models/api-response";
+import { z } from "zod";
+
+interface POSTBody {
+  email: string;
+}
+interface POSTResponse {
+  message: string;
+}
+export async function POST(request: Request) {
+  try {
+    // validasi request dari user
+    const { email }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        email: z
+          .string({ required_error: "Alamat email tidak boleh kosong!" })
+          .email("Alamat email tidak valid!"),
+      })
+      .safeParse({ email });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    const userQuery = database
+      .selectFrom("users as u")
+      .select(["u.id", "u.name", "u.email"])
+      .where("u.email", "=", email)
+      .where("u.suspended_at", "is", null);
+    const userResult = await userQuery.executeTakeFirst();
+
+    // kirim email reset kata sandi jika akun terdaftar
+    if (userResult) {
+      const token = await createAccountToken(
+        userResult.id,
+        AccountTokenType.PASSWORD_RESET
+      );
+      await sendPasswordResetMail(userResult.email, userResult.name, token);
+    }
+
+    /**
+     * response selalu sama baik email terdaftar maupun tidak agar
+     * tidak dapat digunakan untuk mengecek email yang terdaftar
+     */
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      message:
+        "Jika alamat email terdaftar, tautan untuk mengatur ulang kata sandi akan dikirimkan!",
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+}
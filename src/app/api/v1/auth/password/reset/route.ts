@@ -0,0 +1,68 @@
+import { AccountTokenType } from "@/constants/constants";
+import { consumeAccountToken } from "@/lib/account-token";
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { revokeUserSessions } from "@/lib/token-revocation";
+import { hash } from "bcrypt";
+import { z } from "zod";
+
+interface POSTBody {
+  token: string;
+  password: string;
+}
+interface POSTResponse {
+  id: string;
+}
+export async function POST(request: Request) {
+  try {
+    // validasi request dari user
+    const { token, password }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        token: z
+          .string({ required_error: "Token tidak boleh kosong!" })
+          .min(1, "Token tidak boleh kosong!"),
+        password: z
+          .string({
+            required_error: "Kata sandi minimal terdiri dari 6 karakter!",
+          })
+          .min(6, "Kata sandi minimal terdiri dari 6 karakter!"),
+      })
+      .safeParse({ token, password });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // token hanya dapat digunakan 1 kali
+    const userId = await consumeAccountToken(
+      token,
+      AccountTokenType.PASSWORD_RESET
+    );
+    if (!userId)
+      return APIResponse.respondWithNotFound(
+        "Token tidak valid atau sudah kedaluwarsa!"
+      );
+
+    const hashedPassword = await hash(password, 12);
+    const query = database
+      .updateTable("users")
+      .set({ password: hashedPassword })
+      .where("id", "=", userId)
+      .returning(["id"]);
+    const result = await query.executeTakeFirstOrThrow();
+
+    // keluarkan user dari seluruh perangkat
+    await revokeUserSessions(userId);
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+}
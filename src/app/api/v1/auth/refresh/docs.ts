@@ -0,0 +1,73 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+
+export const authRefreshPaths = {
+  "/api/v1/auth/refresh": {
+    post: {
+      operationId: "refreshToken",
+      tags: ["Auth"],
+      description:
+        "menukar refresh token dengan token akses dan refresh token baru, refresh token lama tidak dapat digunakan kembali",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["refresh_token"],
+              properties: {
+                refresh_token: {
+                  type: "string",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["token", "refresh_token", "expires_at", "role"],
+                properties: {
+                  token: {
+                    type: "string",
+                  },
+                  refresh_token: {
+                    type: "string",
+                  },
+                  expires_at: {
+                    type: "string",
+                    format: "datetime",
+                  },
+                  role: {
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.BadRequestError,
+              },
+            },
+          },
+        },
+        "401": {
+          content: {
+            "application/json": {
+              schema: {
+                $ref: swaggerComponentRefs.UnauthorizedError,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,84 @@
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { generateAuthToken } from "@/lib/auth-token";
+import { generateRefreshToken } from "@/lib/session";
+import { sql } from "kysely";
+import { z } from "zod";
+
+interface POSTBody {
+  refresh_token: string;
+}
+interface POSTResponse {
+  token: string;
+  refresh_token: string;
+  expires_at: string;
+  role: string;
+}
+export async function POST(request: Request) {
+  try {
+    // validasi request dari user
+    const { refresh_token: refreshToken }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        refreshToken: z
+          .string({ required_error: "Refresh token tidak boleh kosong!" })
+          .min(1, "Refresh token tidak boleh kosong!"),
+      })
+      .safeParse({ refreshToken });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // mencari session berdasarkan refresh token yang masih berlaku
+    const sessionQuery = database
+      .selectFrom("user_sessions as s")
+      .innerJoin("users as u", "u.id", "s.user")
+      .select(["s.id", sql<string>`s.user`.as("user_id"), "s.role"])
+      .where("s.refresh_token", "=", refreshToken)
+      .where("s.refresh_expires_at", ">", sql<Date>`NOW()`)
+      .where("u.suspended_at", "is", null);
+    const sessionResult = await sessionQuery.executeTakeFirst();
+
+    if (!sessionResult) return APIResponse.respondWithUnauthorized();
+
+    /**
+     * refresh token hanya dapat digunakan 1 kali, setiap refresh akan
+     * menghasilkan token akses dan refresh token baru untuk session
+     * yang sama
+     */
+    const newRefreshToken = generateRefreshToken();
+    const { token, expiresAt } = await generateAuthToken({
+      id: sessionResult.user_id,
+      role: sessionResult.role,
+      session_id: sessionResult.id,
+    });
+
+    const query = database
+      .updateTable("user_sessions")
+      .set({
+        ...newRefreshToken,
+        expires_at: expiresAt,
+        last_used_at: sql<Date>`NOW()`,
+      })
+      .where("id", "=", sessionResult.id)
+      .where("refresh_token", "=", refreshToken)
+      .returning(["refresh_token", "role"]);
+    const result = await query.executeTakeFirst();
+
+    if (!result) return APIResponse.respondWithUnauthorized();
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      token,
+      refresh_token: result.refresh_token,
+      expires_at: expiresAt.toISOString(),
+      role: result.role,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+}
@@ -5,6 +5,8 @@ export const authRegisterPaths = {
     post: {
       operationId: "register",
       tags: ["Auth"],
+      description:
+        "registrasi hanya dapat menggunakan alamat email kampus (env ALLOWED_EMAIL_DOMAINS)",
       requestBody: {
         content: {
           "application/json": {
@@ -18,9 +20,18 @@ export const authRegisterPaths = {
                 name: {
                   type: "string",
                 },
+                nim: {
+                  type: "string",
+                  description: "opsional, nomor induk mahasiswa",
+                },
                 password: {
                   type: "string",
                 },
+                device_name: {
+                  type: "string",
+                  description:
+                    "nama perangkat yang digunakan, default header User-Agent",
+                },
               },
             },
           },
@@ -32,7 +43,16 @@ export const authRegisterPaths = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["id", "name", "email", "token", "role"],
+                required: [
+                  "id",
+                  "name",
+                  "email",
+                  "nim",
+                  "token",
+                  "refresh_token",
+                  "expires_at",
+                  "role",
+                ],
                 properties: {
                   id: {
                     type: "string",
@@ -43,9 +63,19 @@ export const authRegisterPaths = {
                   email: {
                     type: "string",
                   },
+                  nim: {
+                    type: "string",
+                  },
                   token: {
                     type: "string",
                   },
+                  refresh_token: {
+                    type: "string",
+                  },
+                  expires_at: {
+                    type: "string",
+                    format: "datetime",
+                  },
                   role: {
                     type: "string",
                   },
@@ -1,5 +1,11 @@
+import { AccountTokenType } from "@/constants/constants";
+import { createAccountToken } from "@/lib/account-token";
 import { database, xata } from "@/lib/database";
+import { isAllowedEmailDomain } from "@/lib/email-domain";
+import { sendEmailVerificationMail } from "@/lib/mail/account-mails";
 import { APIResponse } from "@/lib/models/api-response";
+import { generateAuthToken } from "@/lib/auth-token";
+import { generateRefreshToken, getDeviceName } from "@/lib/session";
 import { hash } from "bcrypt";
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
@@ -8,14 +14,17 @@ interface POSTResponse {
   id: string;
   name: string;
   email: string;
+  nim: string;
   token: string;
+  refresh_token: string;
+  expires_at: string;
   role: string;
 }
 
 export async function POST(request: Request) {
   try {
     const json = await request.json();
-    const { name, email, password } = json;
+    const { name, email, nim, password, device_name: deviceName } = json;
 
     const data = z
       .object({
@@ -24,12 +33,22 @@ export async function POST(request: Request) {
           .min(1, "Nama pengguna tidak boleh kosong!"),
         email: z
           .string({ required_error: "Alamat email tidak boleh kosong!" })
-          .email("Alamat email tidak valid!"),
+          .email("Alamat email tidak valid!")
+          .refine(
+            isAllowedEmailDomain,
+            "Gunakan alamat email kampus untuk mendaftar!"
+          ),
+        nim: z
+          .string()
+          .trim()
+          .regex(/^[A-Za-z0-9]+$/, "NIM tidak valid!")
+          .max(20, "NIM maksimal terdiri dari 20 karakter!")
+          .optional(),
         password: z
           .string()
           .min(6, "Kata sandi minimal terdiri dari 6 karakter!"),
       })
-      .safeParse({ name, email, password });
+      .safeParse({ name, email, nim: nim || undefined, password });
 
     // validasi input dari user
     if (!data.success)
@@ -53,9 +72,30 @@ export async function POST(request: Request) {
         "Alamat email sudah didaftarkan sebelumnya! Silahkan mencoba untuk masuk"
       );
 
+    // nim hanya dapat digunakan oleh 1 akun
+    const newNim = data.data.nim?.toUpperCase() ?? "";
+    if (newNim) {
+      const nimQuery = database
+        .selectFrom("users as u")
+        .select(["u.id"])
+        .where("u.nim", "=", newNim);
+      const nimResult = await nimQuery.executeTakeFirst();
+
+      if (nimResult)
+        return APIResponse.respondWithConflict(
+          "NIM sudah digunakan oleh akun lain!"
+        );
+    }
+
     // jika belum, lakukan registrasi user baru
     const newUserId = uuidv4();
-    const newToken = uuidv4();
+    const newSessionId = uuidv4();
+    const newRefreshToken = generateRefreshToken();
+    const newAuthToken = await generateAuthToken({
+      id: newUserId,
+      role: "customer",
+      session_id: newSessionId,
+    });
     const hashedPassword = await hash(password, 12);
 
     const result = await xata.transactions.run([
@@ -69,6 +109,7 @@ export async function POST(request: Request) {
             email: email,
             password: hashedPassword,
             name: name,
+            nim: newNim,
           },
         },
       },
@@ -91,22 +132,43 @@ export async function POST(request: Request) {
           createOnly: true,
           table: "user_sessions",
           record: {
-            token: newToken,
+            id: newSessionId,
+            ...newRefreshToken,
             role: "customer",
             user: newUserId,
+            device_name: getDeviceName(request, deviceName),
+            expires_at: newAuthToken.expiresAt,
+            last_used_at: new Date(),
           },
         },
       },
     ]);
 
     if (result.results.length === 3) {
+      /**
+       * kirim email verifikasi, kegagalan pengiriman tidak membatalkan
+       * registrasi karena email dapat dikirim ulang oleh user
+       */
+      try {
+        const verificationToken = await createAccountToken(
+          newUserId,
+          AccountTokenType.EMAIL_VERIFICATION
+        );
+        await sendEmailVerificationMail(email, name, verificationToken);
+      } catch (e) {
+        console.log(e);
+      }
+
       // Role sudah didefinisikan untuk dimasukkan
       const role = "customer";
       return APIResponse.respondWithSuccess<POSTResponse>({
         id: newUserId,
         email: email,
         name: name,
-        token: newToken,
+        nim: newNim,
+        token: newAuthToken.token,
+        refresh_token: newRefreshToken.refresh_token,
+        expires_at: newAuthToken.expiresAt.toISOString(),
         role: role,
       });
     }
@@ -7,7 +7,7 @@ export const chatsPaths = {
       tags: ["Chats"],
       summary: "membuat chat baru (untuk test)",
       description:
-        "endpoint ini digunakan untuk membuat room baru, serta menambahkan beberapa member ke dalam room tersebut berdasarkan id user",
+        "endpoint ini digunakan untuk membuat room baru, serta menambahkan beberapa member ke dalam room tersebut berdasarkan id user. user yang membuat room harus termasuk dalam members, dan room dengan anggota yang sama tidak dapat dibuat ulang (gunakan GET untuk mendapatkan room tersebut)",
       security: swaggerSecurity,
       requestBody: {
         content: {
@@ -54,6 +54,13 @@ export const chatsPaths = {
             },
           },
         },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
         404: {
           content: {
             "application/json": {
@@ -61,6 +68,13 @@ export const chatsPaths = {
             },
           },
         },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
         500: {
           content: {
             "application/json": {
@@ -73,7 +87,8 @@ export const chatsPaths = {
     get: {
       tags: ["Chats"],
       summary: "Get chat room by members",
-      description: "Find a chat room based on provided member IDs",
+      description:
+        "Find a chat room whose members exactly match the provided member IDs. Order chat rooms are excluded, use room_id from the job or offer applicant detail instead",
       security: swaggerSecurity,
       parameters: [
         {
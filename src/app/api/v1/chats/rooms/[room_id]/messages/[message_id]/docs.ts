@@ -0,0 +1,118 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+const parameters = [
+  {
+    in: "path",
+    name: "room_id",
+    required: true,
+    schema: { type: "string" },
+  },
+  {
+    in: "path",
+    name: "message_id",
+    required: true,
+    schema: { type: "string" },
+  },
+];
+
+export const chatMessagesByRoomIdAndIdPaths = {
+  "/api/v1/chats/rooms/{room_id}/messages/{message_id}": {
+    patch: {
+      tags: ["Chats"],
+      summary: "mengubah pesan chat",
+      description:
+        "hanya pengirim yang dapat mengubah pesan, dalam 15 menit setelah pesan dikirim",
+      security: swaggerSecurity,
+      parameters,
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["message"],
+              properties: {
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "message", "edited_at"],
+                properties: {
+                  id: { type: "string" },
+                  message: { type: "string" },
+                  edited_at: { type: "string", format: "datetime" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+    delete: {
+      tags: ["Chats"],
+      summary: "menghapus pesan chat",
+      description:
+        "hanya pengirim yang dapat menghapus pesan, pesan ditampilkan sebagai tombstone pada riwayat chat dan last_message room dihitung ulang",
+      security: swaggerSecurity,
+      parameters,
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,184 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import {
+  chatMessageEditWindowMinutes,
+  refreshChatRoomLastMessage,
+} from "@/lib/chat-room";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    room_id: string;
+    message_id: string;
+  };
+}
+
+interface PATCHBody {
+  message: string;
+}
+interface PATCHResponse {
+  id: string;
+  message: string;
+  edited_at: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { room_id: roomId, message_id: messageId } = params;
+    const { message }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        roomId: z
+          .string({ required_error: "ID ruangan tidak boleh kosong!" })
+          .min(1, "ID ruangan tidak boleh kosong!"),
+        messageId: z
+          .string({ required_error: "ID pesan tidak boleh kosong!" })
+          .min(1, "ID pesan tidak boleh kosong!"),
+        message: z
+          .string({ required_error: "Pesan tidak boleh kosong!" })
+          .min(1, "Pesan tidak boleh kosong!"),
+      })
+      .safeParse({ roomId, messageId, message });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // hanya pengirim yang dapat mengubah atau menghapus pesan
+    const messageQuery = database
+      .selectFrom("chat_messages as cm")
+      .select([
+        "cm.id",
+        "cm.user",
+        sql<string>`cm."xata.createdAt"`.as("created_at"),
+      ])
+      .where("cm.id", "=", messageId)
+      .where("cm.room", "=", linkId<"chat_rooms">(roomId))
+      .where("cm.is_deleted", "=", false);
+    const messageResult = await messageQuery.executeTakeFirst();
+
+    if (!messageResult)
+      return APIResponse.respondWithNotFound(
+        "Pesan dengan ID tersebut tidak ditemukan!"
+      );
+    if ((messageResult.user as unknown as string) !== userId)
+      return APIResponse.respondWithForbidden(
+        "Anda hanya dapat mengubah pesan milik Anda sendiri!"
+      );
+
+    // pesan hanya dapat diubah dalam batas waktu tertentu setelah dikirim
+    const editDeadline =
+      Date.parse(messageResult.created_at) +
+      chatMessageEditWindowMinutes * 60 * 1000;
+    if (Date.now() > editDeadline)
+      return APIResponse.respondWithForbidden(
+        `Pesan hanya dapat diubah dalam ${chatMessageEditWindowMinutes} menit setelah dikirim!`
+      );
+
+    const editedAt = new Date();
+    const query = database
+      .updateTable("chat_messages")
+      .set({ message, edited_at: editedAt })
+      .where("id", "=", messageId)
+      .returning(["id", "message"]);
+    const result = await query.executeTakeFirstOrThrow();
+
+    // perbarui last_message jika pesan yang diubah merupakan pesan terbaru
+    await refreshChatRoomLastMessage(roomId);
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+      message: result.message,
+      edited_at: editedAt.toISOString(),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface DELETEResponse {
+  id: string;
+}
+export const DELETE = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { room_id: roomId, message_id: messageId } = params;
+    const validate = z
+      .object({
+        roomId: z
+          .string({ required_error: "ID ruangan tidak boleh kosong!" })
+          .min(1, "ID ruangan tidak boleh kosong!"),
+        messageId: z
+          .string({ required_error: "ID pesan tidak boleh kosong!" })
+          .min(1, "ID pesan tidak boleh kosong!"),
+      })
+      .safeParse({ roomId, messageId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // hanya pengirim yang dapat mengubah atau menghapus pesan
+    const messageQuery = database
+      .selectFrom("chat_messages as cm")
+      .select([
+        "cm.id",
+        "cm.user",
+        sql<string>`cm."xata.createdAt"`.as("created_at"),
+      ])
+      .where("cm.id", "=", messageId)
+      .where("cm.room", "=", linkId<"chat_rooms">(roomId))
+      .where("cm.is_deleted", "=", false);
+    const messageResult = await messageQuery.executeTakeFirst();
+
+    if (!messageResult)
+      return APIResponse.respondWithNotFound(
+        "Pesan dengan ID tersebut tidak ditemukan!"
+      );
+    if ((messageResult.user as unknown as string) !== userId)
+      return APIResponse.respondWithForbidden(
+        "Anda hanya dapat menghapus pesan milik Anda sendiri!"
+      );
+
+    /**
+     * pesan tidak benar-benar dihapus (soft delete) agar tetap dapat
+     * ditinjau admin ketika dilaporkan, user lain hanya melihat tombstone
+     */
+    const query = database
+      .updateTable("chat_messages")
+      .set({ is_deleted: true })
+      .where("id", "=", messageId)
+      .returning(["id"]);
+    const result = await query.executeTakeFirstOrThrow();
+
+    // hitung ulang last_message jika pesan yang dihapus merupakan pesan terbaru
+    await refreshChatRoomLastMessage(roomId);
+
+    return APIResponse.respondWithSuccess<DELETEResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
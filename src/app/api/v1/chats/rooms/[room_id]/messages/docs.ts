@@ -1,13 +1,49 @@
 import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
+const messageType = {
+  type: "string",
+  enum: ["text", "image", "location", "system"],
+  "x-enum-varnames": ["Text", "Image", "Location", "System"],
+};
+
+const location = {
+  type: "object",
+  required: ["latitude", "longitude"],
+  properties: {
+    latitude: { type: "number", format: "float" },
+    longitude: { type: "number", format: "float" },
+  },
+};
+
+const messageProperties = {
+  id: {
+    type: "string",
+    pattern: "^[A-Za-z0-9_-]+$",
+    description: "dibuat oleh client, harus unik",
+  },
+  // pesan system hanya dapat dibuat oleh server
+  type: {
+    type: "string",
+    enum: ["text", "image", "location"],
+    default: "text",
+  },
+  message: {
+    type: "string",
+    description:
+      "wajib untuk pesan teks, opsional sebagai keterangan pesan gambar dan lokasi",
+  },
+  latitude: { type: "number", format: "float" },
+  longitude: { type: "number", format: "float" },
+};
+
 export const chatMessagesByRoomIdPaths = {
   "/api/v1/chats/rooms/{room_id}/messages": {
     post: {
       tags: ["Chats"],
       summary: "mengirim pesan chat baru",
       description:
-        "endpoint untuk mengirimkan pesan chat baru berdasarkan id room chat",
+        "endpoint untuk mengirimkan pesan chat baru berdasarkan id room chat, hanya anggota room yang dapat mengirim pesan dan unread message count anggota lainnya ditambah oleh server. pesan gambar dikirim sebagai multipart/form-data",
       security: swaggerSecurity,
       parameters: [
         {
@@ -22,11 +58,21 @@ export const chatMessagesByRoomIdPaths = {
           "application/json": {
             schema: {
               type: "object",
+              required: ["id"],
+              properties: messageProperties,
+            },
+          },
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              required: ["id", "type", "image"],
               properties: {
-                id: { type: "string" },
-                message: { type: "string" },
-                other_id: { type: "string" },
-                other_unread_message_count: { type: "number" },
+                ...messageProperties,
+                image: {
+                  type: "string",
+                  format: "binary",
+                  description: "jpeg, png atau webp maksimal 4 MB",
+                },
               },
             },
           },
@@ -40,7 +86,10 @@ export const chatMessagesByRoomIdPaths = {
                 type: "object",
                 properties: {
                   id: { type: "string" },
+                  type: messageType,
                   message: { type: "string" },
+                  image_url: { type: "string" },
+                  location,
                   created_at: { type: "string" },
                   updated_at: { type: "string" },
                 },
@@ -62,6 +111,27 @@ export const chatMessagesByRoomIdPaths = {
             },
           },
         },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
         500: {
           content: {
             "application/json": {
@@ -76,7 +146,7 @@ export const chatMessagesByRoomIdPaths = {
       tags: ["Chats"],
       summary: "mendapatkan riwayat chat",
       description:
-        "endpoint untuk mendapatkan riwayat chat untuk user yang terautentikasi berdasarkan room chat id",
+        'endpoint untuk mendapatkan riwayat chat untuk user yang terautentikasi berdasarkan room chat id, pesan dikembalikan per halaman (cursor pagination) dan selalu diurutkan dari yang terlama ke terbaru, isi pesan yang sudah dihapus diganti dengan "pesan dihapus"',
       security: swaggerSecurity,
       parameters: [
         {
@@ -85,6 +155,29 @@ export const chatMessagesByRoomIdPaths = {
           required: true,
           schema: { type: "string" },
         },
+        {
+          in: "query",
+          name: "before",
+          description:
+            "cursor (next_cursor), mengambil pesan yang lebih lama dari cursor",
+          schema: { type: "string" },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "after",
+          description:
+            "cursor (latest_cursor atau next_cursor), mengambil pesan yang lebih baru dari cursor",
+          schema: { type: "string" },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "limit",
+          schema: { type: "number", maximum: 100 },
+          required: false,
+          default: 50,
+        },
       ],
       responses: {
         200: {
@@ -109,15 +202,43 @@ export const chatMessagesByRoomIdPaths = {
                       type: "object",
                       properties: {
                         id: { type: "string" },
+                        type: messageType,
                         message: { type: "string" },
+                        image_url: { type: "string" },
+                        location,
+                        job_id: {
+                          type: "string",
+                          description:
+                            "job yang ditampilkan sebagai kartu order pada pesan system",
+                        },
+                        offer_id: {
+                          type: "string",
+                          description:
+                            "offer yang ditampilkan sebagai kartu order pada pesan system",
+                        },
                         is_deleted: { type: "boolean" },
                         room_id: { type: "string" },
                         user_id: { type: "string" },
+                        edited_at: {
+                          type: "string",
+                          description:
+                            "waktu pesan terakhir diubah, kosong jika belum pernah diubah",
+                        },
                         created_at: { type: "string" },
                         updated_at: { type: "string" },
                       },
                     },
                   },
+                  next_cursor: {
+                    type: "string",
+                    description:
+                      "cursor untuk halaman berikutnya sesuai arah yang diminta (before jika tanpa after), kosong jika tidak ada pesan lagi",
+                  },
+                  latest_cursor: {
+                    type: "string",
+                    description:
+                      "cursor pesan terbaru pada halaman, digunakan sebagai after untuk mengambil pesan baru",
+                  },
                 },
               },
             },
@@ -137,6 +258,20 @@ export const chatMessagesByRoomIdPaths = {
             },
           },
         },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
         500: {
           content: {
             "application/json": {
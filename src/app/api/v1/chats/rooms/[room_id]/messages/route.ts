@@ -1,9 +1,20 @@
+import { ChatMessageType } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database, xata } from "@/lib/database";
+import { maxChatImageFileSize, uploadChatImage } from "@/lib/chat-attachment";
+import {
+  decodeChatMessageCursor,
+  deletedChatMessageText,
+  encodeChatMessageCursor,
+  getChatMessagePreview,
+  getChatRoomMemberIds,
+  incrementUnreadMessageCounts,
+} from "@/lib/chat-room";
+import { database, linkId, xata } from "@/lib/database";
+import { allowedImageMediaTypes, InvalidImageError } from "@/lib/image";
 import { APIResponse } from "@/lib/models/api-response";
+import { rejectIfBlocked } from "@/lib/user-block";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
-import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/postgres";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -13,42 +24,111 @@ interface Params {
   };
 }
 
+interface ChatMessageLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * pesan gambar dikirim melalui multipart/form-data dengan file pada
+ * field image, jenis pesan lainnya dapat dikirim sebagai json
+ */
 interface POSTBody {
   id: string;
-  message: string;
-  other_id: string;
-  other_unread_message_count: number;
+  // default text, pesan system hanya dapat dibuat oleh server
+  type?: string;
+  // isi pesan teks, atau keterangan untuk pesan gambar dan lokasi
+  message?: string;
+  image?: File;
+  latitude?: number;
+  longitude?: number;
 }
 interface POSTResponse {
   id: string;
+  type: string;
   message: string;
+  image_url?: string;
+  location?: ChatMessageLocation;
   created_at: string;
   updated_at: string;
 }
 export const POST = async (request: NextRequest, { params }: Params) => {
   try {
     // validasi request dari user
-    const {
-      id,
-      message,
-      other_id: otherId,
-      other_unread_message_count: otherUnreadMessageCount,
-    }: POSTBody = await request.json();
+    const isMultipart = request.headers
+      .get("content-type")
+      ?.startsWith("multipart/form-data");
+    const body: POSTBody = isMultipart
+      ? (Object.fromEntries(await request.formData()) as any)
+      : await request.json();
     const { room_id: roomId } = params;
 
     const validate = z
       .object({
         id: z
           .string({ required_error: "ID pesan tidak boleh kosong!" })
-          .min(1, "ID pesan tidak boleh kosong!"),
-        message: z
-          .string({ required_error: "Pesan tidak boleh kosong!" })
-          .min(1, "Pesan tidak boleh kosong!"),
+          .min(1, "ID pesan tidak boleh kosong!")
+          .regex(/^[A-Za-z0-9_-]+$/, "ID pesan tidak valid!"),
         roomId: z
           .string({ required_error: "ID ruangan tidak boleh kosong!" })
           .min(1, "ID ruangan tidak boleh kosong!"),
+        type: z
+          .enum(
+            [
+              ChatMessageType.TEXT,
+              ChatMessageType.IMAGE,
+              ChatMessageType.LOCATION,
+            ],
+            { errorMap: () => ({ message: "Jenis pesan tidak valid!" }) }
+          )
+          .default(ChatMessageType.TEXT),
+        message: z.string().default(""),
+        image: z
+          .instanceof(File, { message: "Gambar tidak valid!" })
+          .refine(
+            (it) => allowedImageMediaTypes.includes(it.type),
+            "Gambar harus berupa jpeg, png atau webp!"
+          )
+          .refine(
+            (it) => it.size <= maxChatImageFileSize,
+            "Ukuran gambar maksimal 4 MB!"
+          )
+          .optional(),
+        latitude: z.coerce
+          .number({ invalid_type_error: "Latitude harus berupa angka!" })
+          .min(-90, "Latitude tidak valid!")
+          .max(90, "Latitude tidak valid!")
+          .optional(),
+        longitude: z.coerce
+          .number({ invalid_type_error: "Longitude harus berupa angka!" })
+          .min(-180, "Longitude tidak valid!")
+          .max(180, "Longitude tidak valid!")
+          .optional(),
       })
-      .safeParse({ id, message, roomId });
+      .superRefine((it, ctx) => {
+        if (it.type === ChatMessageType.TEXT && !it.message)
+          ctx.addIssue({
+            code: "custom",
+            path: ["message"],
+            message: "Pesan tidak boleh kosong!",
+          });
+        if (it.type === ChatMessageType.IMAGE && !it.image)
+          ctx.addIssue({
+            code: "custom",
+            path: ["image"],
+            message: "Gambar tidak boleh kosong!",
+          });
+        if (
+          it.type === ChatMessageType.LOCATION &&
+          (it.latitude === undefined || it.longitude === undefined)
+        )
+          ctx.addIssue({
+            code: "custom",
+            path: ["latitude"],
+            message: "Titik lokasi tidak boleh kosong!",
+          });
+      })
+      .safeParse({ ...body, roomId });
     if (!validate.success)
       return APIResponse.respondWithBadRequest(
         validate.error.errors.map((it) => ({
@@ -56,12 +136,62 @@ export const POST = async (request: NextRequest, { params }: Params) => {
           message: it.message,
         }))
       );
+    const { id, type, message, image } = validate.data;
+    const location =
+      type === ChatMessageType.LOCATION
+        ? {
+            latitude: validate.data.latitude!,
+            longitude: validate.data.longitude!,
+          }
+        : undefined;
 
     // verifikasi bearer token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
     const { userId } = authorization;
 
+    // hanya anggota room yang dapat mengirim pesan ke room tersebut
+    const memberIds = await getChatRoomMemberIds(roomId);
+    if (memberIds.length === 0)
+      return APIResponse.respondWithNotFound(
+        "Ruangan chat dengan ID tersebut tidak ditemukan!"
+      );
+    if (!memberIds.includes(userId))
+      return APIResponse.respondWithForbidden(
+        "Anda bukan anggota ruangan chat ini!"
+      );
+
+    // pesan tidak dapat dikirim ke user yang saling memblokir
+    const blockError = await rejectIfBlocked(userId, memberIds);
+    if (blockError) return blockError;
+
+    // id pesan dibuat oleh client sehingga perlu dipastikan belum digunakan
+    const existingQuery = database
+      .selectFrom("chat_messages as cm")
+      .select(["cm.id"])
+      .where("cm.id", "=", id);
+    if (await existingQuery.executeTakeFirst())
+      return APIResponse.respondWithConflict(
+        "Pesan dengan ID tersebut sudah ada!"
+      );
+
+    // simpan gambar ke storage sebelum pesan dibuat
+    let imageUrl = "";
+    if (type === ChatMessageType.IMAGE && image) {
+      try {
+        imageUrl = await uploadChatImage(
+          roomId,
+          Buffer.from(await image.arrayBuffer())
+        );
+      } catch (e) {
+        if (e instanceof InvalidImageError)
+          return APIResponse.respondWithBadRequest([
+            { path: "image", message: e.message },
+          ]);
+        throw e;
+      }
+    }
+
     // mengirim pesan menggunakan transaction
     const transactionResult = await xata.transactions.run([
       // mengirim pesan
@@ -71,7 +201,11 @@ export const POST = async (request: NextRequest, { params }: Params) => {
           createOnly: true,
           record: {
             id,
+            type,
             message,
+            image_url: imageUrl,
+            latitude: location?.latitude ?? null,
+            longitude: location?.longitude ?? null,
             is_deleted: false,
             room: roomId,
             user: userId,
@@ -86,34 +220,28 @@ export const POST = async (request: NextRequest, { params }: Params) => {
           upsert: false,
           id: roomId,
           fields: {
-            last_message: message,
+            last_message: getChatMessagePreview({ type, message }),
             last_sent_user: userId,
           },
         },
       },
-
-      // memperbarui unread message count milik other user
-      {
-        update: {
-          table: "chat_room_members",
-          upsert: false,
-          id: `${roomId}_${otherId}`,
-          fields: {
-            unread_message_count: otherUnreadMessageCount,
-          },
-        },
-      },
     ]);
 
     // check jika terdapat error pada transaction
-    if (transactionResult.results.length !== 3)
+    if (transactionResult.results.length !== 2)
       return APIResponse.respondWithServerError();
 
+    // memperbarui unread message count milik anggota room lainnya
+    await incrementUnreadMessageCounts(roomId, userId);
+
     // kembalikan response success
     const currentDatetime = new Date();
     return APIResponse.respondWithSuccess<POSTResponse>({
       id: transactionResult.results[0].id,
+      type,
       message,
+      image_url: imageUrl || undefined,
+      location,
       created_at: currentDatetime.toISOString(),
       updated_at: currentDatetime.toISOString(),
     });
@@ -123,33 +251,74 @@ export const POST = async (request: NextRequest, { params }: Params) => {
   }
 };
 
+// jumlah pesan default dan maksimal dalam 1 halaman
+const defaultMessageLimit = 50;
+const maxMessageLimit = 100;
+
+const messageCursorSchema = z.string().transform((it, ctx) => {
+  const cursor = decodeChatMessageCursor(it);
+  if (!cursor) ctx.addIssue({ code: "custom", message: "Cursor tidak valid!" });
+  return cursor;
+});
+
 interface GETResponse {
-  other_user: {
+  // kosong jika anggota lain room sudah tidak ada
+  other_user?: {
     id: string;
-    last_read_message_id: string;
+    last_read_message_id: string | null;
   };
   messages: {
     id: string;
+    type: string;
     message: string;
+    image_url?: string;
+    location?: ChatMessageLocation;
+    // job/offer yang ditampilkan sebagai kartu order pada pesan system
+    job_id?: string;
+    offer_id?: string;
     is_deleted: boolean;
     room_id: string;
     user_id: string;
+    // kosong jika pesan belum pernah diubah
+    edited_at?: string;
     created_at: string;
     updated_at: string;
   }[];
+  // cursor untuk melanjutkan ke halaman berikutnya sesuai arah yang diminta
+  next_cursor?: string;
+  // cursor pesan terbaru pada halaman, digunakan sebagai after
+  latest_cursor?: string;
 }
 export const GET = async (request: NextRequest, { params }: Params) => {
   try {
     // validasi request dari user
     const { room_id: roomId } = params;
+    const searchParams = request.nextUrl.searchParams;
 
     const validate = z
       .object({
         roomId: z
           .string({ required_error: "ID ruangan tidak boleh kosong!" })
           .min(1, "ID ruangan tidak boleh kosong!"),
+        before: messageCursorSchema.optional(),
+        after: messageCursorSchema.optional(),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .max(maxMessageLimit, `Limit maksimal ${maxMessageLimit}!`)
+          .default(defaultMessageLimit),
+      })
+      .refine((it) => !(it.before && it.after), {
+        path: ["before"],
+        message: "Before dan after tidak dapat digunakan bersamaan!",
       })
-      .safeParse({ roomId });
+      .safeParse({
+        roomId,
+        before: searchParams.get("before") || undefined,
+        after: searchParams.get("after") || undefined,
+        limit: searchParams.get("limit") || undefined,
+      });
     if (!validate.success)
       return APIResponse.respondWithBadRequest(
         validate.error.errors.map((it) => ({
@@ -157,73 +326,119 @@ export const GET = async (request: NextRequest, { params }: Params) => {
           message: it.message,
         }))
       );
+    const { before, after, limit } = validate.data;
 
     // verifikasi bearer token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
     const { userId } = authorization;
 
-    // mendapatkan daftar pesan berdasarkan room id dan user id
-    const query = database
-      .selectFrom("chat_rooms as cr")
-      .select((eb) => [
-        // query untuk mendapatkan daftar members dan last read message id
-        jsonObjectFrom(
-          eb
-            .selectFrom("chat_room_members as crm")
-            .select([
-              "crm.user as id",
-              "crm.last_read_message as last_read_message_id",
-            ])
-            .whereRef("crm.room", "=", "cr.id")
-            .where("crm.user", "!=", userId as any)
-            .limit(1)
-        ).as("other_user"),
-
-        // query untuk mendapatkan daftar messages dari room
-        jsonArrayFrom(
-          eb
-            .selectFrom("chat_messages as cm")
-            .select([
-              "cm.id",
-              "cm.message",
-              "cm.is_deleted",
-              "cm.room as room_id",
-              "cm.user as user_id",
-            ])
-            .select(sql<string>`cm."xata.createdAt"`.as("created_at"))
-            .select(sql<string>`cm."xata.updatedAt"`.as("updated_at"))
-            .whereRef("cm.room", "=", "cr.id")
-            .orderBy("created_at", "asc")
-        ).as("messages"),
+    // hanya anggota room yang dapat melihat riwayat chat room tersebut
+    const memberIds = await getChatRoomMemberIds(roomId);
+    if (memberIds.length === 0)
+      return APIResponse.respondWithNotFound(
+        "Ruangan chat dengan ID tersebut tidak ditemukan!"
+      );
+    if (!memberIds.includes(userId))
+      return APIResponse.respondWithForbidden(
+        "Anda bukan anggota ruangan chat ini!"
+      );
+
+    // query untuk mendapatkan data member lain dan last read message id
+    const otherUserQuery = database
+      .selectFrom("chat_room_members as crm")
+      .select([
+        sql<string>`crm.user`.as("id"),
+        sql<string | null>`crm.last_read_message`.as("last_read_message_id"),
       ])
-      .where("cr.id", "=", roomId)
+      .where("crm.room", "=", linkId<"chat_rooms">(roomId))
+      .where("crm.user", "!=", linkId<"users">(userId))
       .limit(1);
 
-    // old query
-    // const query = database
-    //   .selectFrom("chat_messages as cm")
-    //   .select((eb) => [
-    //     "cm.id",
-    //     "cm.message",
-    //     "cm.is_deleted",
-    //     "cm.room as room_id",
-    //     "cm.user as user_id",
-    //   ])
-    //   .select(sql<string>`cm."xata.createdAt"`.as("created_at"))
-    //   .select(sql<string>`cm."xata.updatedAt"`.as("updated_at"))
-    //   .where("cm.room", "=", roomId as any)
-    //   .orderBy("created_at", "asc");
-    const result = await query.executeTakeFirstOrThrow();
+    /**
+     * pesan diurutkan berdasarkan waktu dibuat dan id, tanpa cursor atau
+     * dengan before mengambil pesan terbaru lebih dulu (scroll ke atas),
+     * dengan after mengambil pesan yang lebih baru dari cursor. limit
+     * ditambah 1 untuk mengetahui apakah masih ada halaman berikutnya
+     */
+    const direction = after ? "asc" : "desc";
+    const messagesQuery = database
+      .selectFrom("chat_messages as cm")
+      .select([
+        "cm.id",
+        "cm.type",
+        "cm.message",
+        "cm.image_url",
+        "cm.latitude",
+        "cm.longitude",
+        "cm.is_deleted",
+        // kolom link berisi id record tujuan
+        sql<string | null>`cm.job`.as("job_id"),
+        sql<string | null>`cm.offer`.as("offer_id"),
+        sql<string>`cm.room`.as("room_id"),
+        sql<string>`cm."user"`.as("user_id"),
+        "cm.edited_at",
+        sql<string>`cm."xata.createdAt"`.as("created_at"),
+        sql<string>`cm."xata.updatedAt"`.as("updated_at"),
+        sql<string>`cm."xata.createdAt"::text`.as("cursor_created_at"),
+      ])
+      .where("cm.room", "=", linkId<"chat_rooms">(roomId))
+      .$if(!!before, (qb) =>
+        qb.where(
+          sql<boolean>`(cm."xata.createdAt", cm.id) < (${before!.createdAt}::timestamptz, ${before!.id})`
+        )
+      )
+      .$if(!!after, (qb) =>
+        qb.where(
+          sql<boolean>`(cm."xata.createdAt", cm.id) > (${after!.createdAt}::timestamptz, ${after!.id})`
+        )
+      )
+      .orderBy("created_at", direction)
+      .orderBy("cm.id", direction)
+      .limit(limit + 1);
+
+    const [otherUserResult, messagesResult] = await Promise.all([
+      otherUserQuery.executeTakeFirst(),
+      messagesQuery.execute(),
+    ]);
+
+    const hasMore = messagesResult.length > limit;
+    const messages = messagesResult.slice(0, limit);
+    // response selalu diurutkan dari pesan terlama ke terbaru
+    if (!after) messages.reverse();
+
+    const toCursor = (it: (typeof messages)[number]) =>
+      encodeChatMessageCursor({ createdAt: it.cursor_created_at, id: it.id });
+    const oldest = messages[0];
+    const latest = messages[messages.length - 1];
 
     // kembalikan response success
     return APIResponse.respondWithSuccess<GETResponse>({
-      other_user: result.other_user as any,
-      messages: result.messages.map((it) => ({
-        ...(it as any),
+      other_user: otherUserResult,
+      messages: messages.map((it) => ({
+        id: it.id,
+        type: it.type,
+        // isi dan lampiran pesan yang sudah dihapus diganti dengan tombstone
+        message: it.is_deleted ? deletedChatMessageText : it.message,
+        image_url: it.image_url && !it.is_deleted ? it.image_url : undefined,
+        location:
+          it.latitude != null && it.longitude != null && !it.is_deleted
+            ? { latitude: it.latitude, longitude: it.longitude }
+            : undefined,
+        job_id: it.job_id ?? undefined,
+        offer_id: it.offer_id ?? undefined,
+        is_deleted: it.is_deleted,
+        room_id: it.room_id,
+        user_id: it.user_id,
+        edited_at:
+          it.edited_at && !it.is_deleted
+            ? new Date(it.edited_at).toISOString()
+            : undefined,
         created_at: convertDatetimeToISO(it.created_at),
         updated_at: convertDatetimeToISO(it.updated_at),
       })),
+      next_cursor: hasMore ? toCursor(after ? latest : oldest) : undefined,
+      latest_cursor: latest ? toCursor(latest) : undefined,
     });
   } catch (e) {
     console.log(e);
@@ -27,11 +27,22 @@ export const chatRoomsPaths = {
                         created_at: { type: "string" },
                         updated_at: { type: "string" },
                         unread_message_count: { type: "number" },
+                        job_id: {
+                          type: "string",
+                          description:
+                            "job yang terhubung dengan room, kosong untuk room biasa",
+                        },
+                        offer_applicant_id: {
+                          type: "string",
+                          description:
+                            "offer applicant yang terhubung dengan room, kosong untuk room biasa",
+                        },
                         other_user: {
                           type: "object",
                           properties: {
                             id: { type: "string" },
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
                           },
                         },
                       },
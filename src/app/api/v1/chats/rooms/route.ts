@@ -14,9 +14,13 @@ interface Room {
   created_at: string;
   updated_at: string;
   unread_message_count: number;
+  // order yang terhubung dengan room, kosong untuk room biasa
+  job_id?: string;
+  offer_applicant_id?: string;
   other_user: {
     id: string;
     name: string;
+    avatar_url: string;
   };
 }
 
@@ -56,6 +60,8 @@ export async function GET(request: NextRequest) {
         "cr.last_message",
         "cr.last_sent_user as last_sent_user_id",
         "crm.unread_message_count",
+        "cr.job as job_id",
+        "cr.offer_applicant as offer_applicant_id",
 
         // jika ingin mendapatkan semua member dari sebuah room
         // jsonArrayFrom(
@@ -72,7 +78,7 @@ export async function GET(request: NextRequest) {
           eb
             .selectFrom("chat_room_members as crm2")
             .innerJoin("users as u2", "u2.id", "crm2.user")
-            .select(["u2.id", "u2.name"])
+            .select(["u2.id", "u2.name", "u2.avatar_url"])
             .whereRef("crm2.room", "=", "cr.id")
             .where("crm2.user", "!=", userId as any)
             .limit(1)
@@ -87,6 +93,8 @@ export async function GET(request: NextRequest) {
     return APIResponse.respondWithSuccess<GETResponse>({
       rooms: result.map((it) => ({
         ...(it as any),
+        job_id: it.job_id ?? undefined,
+        offer_applicant_id: it.offer_applicant_id ?? undefined,
         created_at: convertDatetimeToISO(it.created_at as string),
         updated_at: convertDatetimeToISO(it.updated_at as string),
       })),
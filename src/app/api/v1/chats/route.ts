@@ -1,6 +1,8 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
+import { findChatRoomIdByMembers } from "@/lib/chat-room";
 import { xata } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import { rejectIfBlocked } from "@/lib/user-block";
 import { FetcherError } from "@xata.io/client";
 import { NextRequest } from "next/server";
 import { v4 } from "uuid";
@@ -40,6 +42,24 @@ export const POST = async (request: NextRequest) => {
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
 
+    const memberIds = Array.from(new Set(members));
+
+    // user hanya dapat membuat room chat yang beranggotakan dirinya sendiri
+    if (!memberIds.includes(authorization.userId))
+      return APIResponse.respondWithForbidden(
+        "Anda harus menjadi anggota ruangan chat yang dibuat!"
+      );
+
+    // user yang saling memblokir tidak dapat membuat room chat
+    const blockError = await rejectIfBlocked(authorization.userId, memberIds);
+    if (blockError) return blockError;
+
+    // room dengan anggota yang sama digunakan kembali, bukan dibuat ulang
+    if (await findChatRoomIdByMembers(memberIds))
+      return APIResponse.respondWithConflict(
+        "Ruangan chat dengan anggota tersebut sudah ada!"
+      );
+
     // membuat room baru, serta menambahkan member ke dalam room tersebut
     const newRoomUuid = v4();
     const transactionResult = await xata.transactions.run([
@@ -55,7 +75,7 @@ export const POST = async (request: NextRequest) => {
       },
 
       // menambahkan member ke dalam room tersebut
-      ...(members.map((it) => ({
+      ...(memberIds.map((it) => ({
         insert: {
           table: "chat_room_members",
           createOnly: true,
@@ -69,7 +89,7 @@ export const POST = async (request: NextRequest) => {
     ]);
 
     // validasi hasil transaksi, jika terdapat error maka kembalikan response error
-    if (transactionResult.results.length !== members.length + 1)
+    if (transactionResult.results.length !== memberIds.length + 1)
       return APIResponse.respondWithServerError();
 
     // kembalikan response sukses
@@ -110,30 +130,10 @@ export const GET = async (request: NextRequest) => {
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
 
-    // Dapatkan semua room_id yang memiliki member yang dimaksud
-    const roomMembers = await xata.db.chat_room_members
-      .select(["room.id"])
-      .filter({
-        "user.id": { $any: members },
-      })
-      .getMany();
-
-    // Hitung frekuensi setiap room_id
-    const roomFrequency = roomMembers.reduce((acc, curr) => {
-      const roomId = curr.room?.id;
-      if (roomId) {
-        acc[roomId] = (acc[roomId] || 0) + 1;
-      }
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Cari room yang memiliki kedua member (frekuensi = jumlah members yang dicari)
-    const matchingRoomId = Object.entries(roomFrequency).find(
-      ([_, count]) => count === members.length
-    )?.[0];
+    const roomId = await findChatRoomIdByMembers(members);
 
     return APIResponse.respondWithSuccess({
-      room_id: matchingRoomId || null,
+      room_id: roomId ?? null,
     });
   } catch (e) {
     console.log(e);
@@ -0,0 +1,26 @@
+export const cronRevokedTokensPaths = {
+  "/api/v1/cron/revoked-tokens": {
+    get: {
+      operationId: "deleteExpiredRevokedTokens",
+      tags: ["Cron"],
+      summary: "menghapus token yang dicabut dan sudah kedaluwarsa",
+      description:
+        "endpoint ini dipanggil oleh vercel cron menggunakan header Authorization: Bearer CRON_SECRET",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["deleted_tokens"],
+                properties: {
+                  deleted_tokens: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,39 @@
+import { database } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+
+interface GETResponse {
+  deleted_tokens: number;
+}
+
+/**
+ * endpoint ini dipanggil secara berkala oleh vercel cron (lihat
+ * vercel.json) untuk menghapus daftar token yang dicabut dan sudah
+ * kedaluwarsa, token tersebut sudah ditolak saat verifikasi sehingga
+ * tidak perlu lagi dimuat ke daftar pencabutan
+ */
+export const GET = async (request: NextRequest) => {
+  try {
+    // verifikasi cron secret, vercel mengirimkan secret sebagai bearer token
+    const authorization = request.headers.get("Authorization");
+    if (
+      !process.env.CRON_SECRET ||
+      authorization !== `Bearer ${process.env.CRON_SECRET}`
+    )
+      return APIResponse.respondWithUnauthorized();
+
+    const query = database
+      .deleteFrom("revoked_tokens")
+      .where("expires_at", "<=", sql<Date>`NOW()`)
+      .returning("id");
+    const result = await query.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      deleted_tokens: result.length,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,27 @@
+export const cronSweepPaths = {
+  "/api/v1/cron/sweep": {
+    get: {
+      operationId: "sweepExpiredOrders",
+      tags: ["Cron"],
+      summary: "menandai job dan offer yang sudah kedaluwarsa",
+      description:
+        "endpoint ini dipanggil oleh vercel cron menggunakan header Authorization: Bearer CRON_SECRET",
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["expired_jobs", "closed_offers"],
+                properties: {
+                  expired_jobs: { type: "integer" },
+                  closed_offers: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,86 @@
+import {
+  JobApplicationStatus,
+  JobStatus,
+  OfferStatus,
+} from "@/constants/constants";
+import { database } from "@/lib/database";
+import { jobStatusValues } from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
+import { APIResponse } from "@/lib/models/api-response";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+
+interface GETResponse {
+  expired_jobs: number;
+  closed_offers: number;
+}
+
+/**
+ * endpoint ini dipanggil secara berkala oleh vercel cron (lihat
+ * vercel.json) untuk menandai job open yang sudah melewati expires_at
+ * menjadi expired dan offer yang melewati available_until menjadi closed
+ */
+export const GET = async (request: NextRequest) => {
+  try {
+    // verifikasi cron secret, vercel mengirimkan secret sebagai bearer token
+    const authorization = request.headers.get("Authorization");
+    if (
+      !process.env.CRON_SECRET ||
+      authorization !== `Bearer ${process.env.CRON_SECRET}`
+    )
+      return APIResponse.respondWithUnauthorized();
+
+    // job open yang sudah kedaluwarsa beserta versinya
+    const jobsQuery = database
+      .selectFrom("jobs as j")
+      .select(["j.id", sql<number>`j."xata.version"`.as("version")])
+      .where("j.status", "in", jobStatusValues(JobStatus.OPEN))
+      .where("j.freelancer", "is", null)
+      .where("j.expires_at", "<=", sql<Date>`NOW()`);
+    const jobsResult = await jobsQuery.execute();
+
+    /**
+     * tandai job menjadi expired beserta riwayat statusnya, lamaran yang
+     * masih pending otomatis ditolak di dalam transaksi yang sama. job
+     * yang berubah sejak dibaca (misal: diambil driver) dilewati
+     */
+    const expiredJobIds: string[] = [];
+    for (const job of jobsResult) {
+      const updated = await updateJobStatus({
+        jobId: job.id,
+        jobVersion: job.version,
+        role: "system",
+        previousStatus: JobStatus.OPEN,
+        newStatus: JobStatus.EXPIRED,
+        applications: {
+          from: JobApplicationStatus.PENDING,
+          to: JobApplicationStatus.REJECTED,
+        },
+      });
+      if (updated) expiredJobIds.push(job.id);
+    }
+
+    // pesan system untuk job yang pernah memiliki room chat
+    await Promise.all(
+      expiredJobIds.map((jobId) => announceJobStatus(jobId, JobStatus.EXPIRED))
+    );
+
+    // tutup offer yang sudah melewati batas waktu
+    const offersQuery = database
+      .updateTable("offers")
+      .set({ offer_status: OfferStatus.CLOSED })
+      .where("offer_status", "=", OfferStatus.AVAILABLE)
+      .where("available_until", "<=", sql<Date>`NOW()`)
+      .returning("id");
+    const offersResult = await offersQuery.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      expired_jobs: expiredJobIds.length,
+      closed_offers: offersResult.length,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -1,6 +1,15 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
+import { assignJobDriver } from "@/lib/job-assignment";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -49,35 +58,71 @@ export const PATCH = async (request: NextRequest, { params }: Params) => {
         "Anda tidak memiliki akses untuk menghapus aplikasi pekerjaan!"
       );
 
-    // approve job application
+    // validasi perpindahan status job milik customer
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select(["j.status", sql<number>`j."xata.version"`.as("version")])
+      .where("j.id", "=", jobId)
+      .where("j.customer", "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.ASSIGNED,
+      Role.Customer
+    );
+
+    // lamaran yang diterima harus masih pending
     const applicationQuery = database
       .selectFrom("job_applications as ja")
-      .select(["ja.bid_price", "ja.freelancer"])
-      .where("ja.job", "=", jobId as any)
-      .where("ja.id", "=", applicationId);
-    const applicationResult = await applicationQuery.executeTakeFirstOrThrow();
+      .select(["ja.bid_price", sql<string>`ja.freelancer`.as("freelancer_id")])
+      .where("ja.job", "=", linkId<"jobs">(jobId))
+      .where("ja.id", "=", applicationId)
+      .where("ja.status", "=", JobApplicationStatus.PENDING);
+    const applicationResult = await applicationQuery.executeTakeFirst();
+
+    if (!applicationResult)
+      return APIResponse.respondWithNotFound(
+        "Lamaran pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
 
     /**
-     * update ke depan, belum ada logika untuk cancel application
-     * dari driver lainnya
+     * approve job application, lamaran dari driver lainnya
+     * otomatis ditolak di dalam transaction yang sama
      */
-    const query = database
-      .updateTable("jobs")
-      .set({
-        price: applicationResult.bid_price,
-        status: "ongoing",
-        freelancer: applicationResult.freelancer,
-      })
-      .where("id", "=", jobId)
-      .where("freelancer", "is", null)
-      .returning("id");
-    const result = await query.executeTakeFirstOrThrow();
+    const result = await assignJobDriver({
+      jobId,
+      jobVersion: jobResult.version,
+      previousStatus: currentStatus,
+      driverId: applicationResult.freelancer_id,
+      price: applicationResult.bid_price,
+      actorId: userId,
+      role: Role.Customer,
+      acceptedApplicationId: applicationId,
+    });
+
+    if (!result)
+      return APIResponse.respondWithConflict(
+        "Pekerjaan sudah diambil driver lain atau lamaran telah berubah, silahkan coba lagi!"
+      );
+
+    // membuat room chat order dan mengirim pesan system
+    await announceJobStatus(jobId, JobStatus.ASSIGNED);
 
     return APIResponse.respondWithSuccess<PATCHResponse>({
-      id: result.id,
+      id: jobId,
     });
   } catch (e) {
     console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
     return APIResponse.respondWithServerError();
   }
 };
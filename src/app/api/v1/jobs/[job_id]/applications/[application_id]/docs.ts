@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 const parameters = [
@@ -7,12 +8,118 @@ const parameters = [
     required: true,
     schema: { type: "string" },
   },
+  {
+    in: "path",
+    name: "application_id",
+    required: true,
+    schema: { type: "string" },
+  },
 ];
 
 export const jobsIdApplicationsIdPaths = {
   "/api/v1/jobs/{job_id}/applications/{application_id}": {
+    get: {
+      operationId: "getJobApplication",
+      tags: ["Job"],
+      summary: "mendapatkan detail lamaran pekerjaan milik driver",
+      security: swaggerSecurity,
+      parameters,
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: [
+                  "id",
+                  "bid_price",
+                  "bid_note",
+                  "status",
+                  "created_at",
+                  "updated_at",
+                ],
+                properties: {
+                  id: { type: "string" },
+                  bid_price: { type: "integer" },
+                  bid_note: { type: "string" },
+                  status: {
+                    type: "string",
+                    enum: ["pending", "accepted", "rejected", "withdrawn"],
+                    "x-enum-varnames": [
+                      "Pending",
+                      "Accepted",
+                      "Rejected",
+                      "Withdrawn",
+                    ],
+                  },
+                  created_at: { type: "string", format: "datetime" },
+                  updated_at: { type: "string", format: "datetime" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    patch: {
+      operationId: "updateJobApplication",
+      tags: ["Job"],
+      summary: "mengubah penawaran lamaran pekerjaan milik driver",
+      description:
+        "penawaran hanya dapat diubah selama masih pending dan job masih menerima penawaran, divalidasi sama seperti saat membuat penawaran",
+      security: swaggerSecurity,
+      parameters,
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["bid_price"],
+              properties: {
+                bid_price: { type: "integer" },
+                bid_note: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "bid_price", "bid_note"],
+                properties: {
+                  id: { type: "string" },
+                  bid_price: { type: "integer" },
+                  bid_note: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          description:
+            "driver belum melengkapi profil kendaraan, saling memblokir dengan customer, atau harga penawaran tidak valid",
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
     delete: {
       tags: ["Jobs"],
+      summary: "menarik penawaran lamaran pekerjaan milik driver",
       security: swaggerSecurity,
       parameters,
       responses: {
@@ -1,6 +1,10 @@
+import { JobApplicationStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
+import { findBiddableJob, rejectIfCannotBid } from "@/lib/job-application";
 import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -11,6 +15,193 @@ interface Params {
   };
 }
 
+interface GETResponse {
+  id: string;
+  bid_price: number;
+  bid_note: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+}
+export const GET = async (request: NextRequest, { params }: Params) => {
+  try {
+    // verifikasi request dari user
+    const { job_id: jobId, application_id: applicationId } = params;
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+        applicationId: z
+          .string({
+            required_error: "ID aplikasi pekerjaan tidak boleh kosong!",
+          })
+          .min(1, "ID aplikasi pekerjaan tidak boleh kosong!"),
+      })
+      .safeParse({ jobId, applicationId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role, userId } = authorization;
+
+    // verifikasi role user
+    if (role !== "driver")
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melihat aplikasi pekerjaan!"
+      );
+
+    // mendapatkan aplikasi pekerjaan milik driver
+    const query = database
+      .selectFrom("job_applications as ja")
+      .select([
+        "ja.id",
+        "ja.bid_price",
+        "ja.bid_note",
+        "ja.status",
+        sql<string>`ja."xata.createdAt"`.as("created_at"),
+        sql<string>`ja."xata.updatedAt"`.as("updated_at"),
+      ])
+      .where("ja.id", "=", applicationId)
+      .where("ja.job", "=", linkId<"jobs">(jobId))
+      .where("ja.freelancer", "=", linkId<"users">(userId));
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "Aplikasi pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      id: result.id,
+      bid_price: result.bid_price,
+      bid_note: result.bid_note,
+      status: result.status,
+      created_at: convertDatetimeToISO(result.created_at),
+      updated_at: convertDatetimeToISO(result.updated_at),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface PATCHBody {
+  bid_price: number;
+  bid_note: string;
+}
+interface PATCHResponse {
+  id: string;
+  bid_price: number;
+  bid_note: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // verifikasi request dari user
+    const { job_id: jobId, application_id: applicationId } = params;
+    const { bid_price: bidPrice, bid_note: bidNote }: PATCHBody =
+      await request.json();
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+        applicationId: z
+          .string({
+            required_error: "ID aplikasi pekerjaan tidak boleh kosong!",
+          })
+          .min(1, "ID aplikasi pekerjaan tidak boleh kosong!"),
+        bidPrice: z
+          .number({ required_error: "Harga tidak boleh kosong!" })
+          .min(0, "Harga tidak boleh kurang dari 0!"),
+        bidNote: z.string().optional(),
+      })
+      .safeParse({ jobId, applicationId, bidPrice, bidNote });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { role, userId } = authorization;
+
+    // verifikasi role user
+    if (role !== "driver")
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk mengubah aplikasi pekerjaan!"
+      );
+
+    // penawaran hanya dapat diubah selama masih pending
+    const applicationQuery = database
+      .selectFrom("job_applications as ja")
+      .select(["ja.status"])
+      .where("ja.id", "=", applicationId)
+      .where("ja.job", "=", linkId<"jobs">(jobId))
+      .where("ja.freelancer", "=", linkId<"users">(userId));
+    const applicationResult = await applicationQuery.executeTakeFirst();
+
+    if (!applicationResult)
+      return APIResponse.respondWithNotFound(
+        "Aplikasi pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    /**
+     * penawaran yang diubah divalidasi sama seperti penawaran baru,
+     * job harus masih menerima penawaran (lihat POST lamaran)
+     */
+    const jobResult = await findBiddableJob(jobId);
+
+    if (applicationResult.status !== JobApplicationStatus.PENDING || !jobResult)
+      return APIResponse.respondWithConflict(
+        "Penawaran ini sudah tidak dapat diubah!"
+      );
+
+    const bidError = await rejectIfCannotBid(
+      userId,
+      jobResult,
+      bidPrice,
+      bidNote
+    );
+    if (bidError) return bidError;
+
+    // ubah penawaran
+    const query = database
+      .updateTable("job_applications")
+      .set({ bid_price: bidPrice, bid_note: bidNote ?? "" })
+      .where("id", "=", applicationId)
+      .where("freelancer", "=", linkId<"users">(userId))
+      .where("status", "=", JobApplicationStatus.PENDING)
+      .returning(["id", "bid_price", "bid_note"]);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithConflict(
+        "Penawaran ini sudah tidak dapat diubah!"
+      );
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: result.id,
+      bid_price: result.bid_price,
+      bid_note: result.bid_note,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
 interface DELETEResponse {
   id: string;
 }
@@ -49,13 +240,25 @@ export const DELETE = async (request: NextRequest, { params }: Params) => {
         "Anda tidak memiliki akses untuk menghapus aplikasi pekerjaan!"
       );
 
-    // hapus aplikasi pekerjaan
+    /**
+     * tarik aplikasi pekerjaan, hanya penawaran yang masih pending
+     * yang dapat ditarik. riwayat penawaran tetap disimpan dengan
+     * status withdrawn
+     */
     const query = database
-      .deleteFrom("job_applications")
-      .where("id", "=", applicationId as any)
-      .where("freelancer", "=", userId as any)
+      .updateTable("job_applications")
+      .set({ status: JobApplicationStatus.WITHDRAWN })
+      .where("id", "=", applicationId)
+      .where("job", "=", linkId<"jobs">(jobId))
+      .where("freelancer", "=", linkId<"users">(userId))
+      .where("status", "=", JobApplicationStatus.PENDING)
       .returning("id");
-    const result = await query.executeTakeFirstOrThrow();
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithConflict(
+        "Penawaran ini sudah tidak dapat ditarik!"
+      );
 
     return APIResponse.respondWithSuccess<DELETEResponse>({
       id: result.id,
@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 const parameters = [
@@ -44,6 +45,24 @@ export const jobsIdApplicationsPaths = {
             },
           },
         },
+        403: {
+          description:
+            "driver belum melengkapi profil kendaraan atau harga penawaran tidak valid",
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        409: {
+          description:
+            "job sudah tidak menerima penawaran, job berubah ketika penawaran dikirim, atau driver sudah memiliki penawaran aktif",
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
       },
     },
     get: {
@@ -67,12 +86,14 @@ export const jobsIdApplicationsPaths = {
                         id: { type: "string" },
                         price: { type: "number" },
                         bid_note: { type: "string" },
+                        status: { type: "string" },
                         created_at: { type: "string" },
                         updated_at: { type: "string" },
                         driver: {
                           type: "object",
                           properties: {
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
                           },
                         },
                       },
@@ -1,7 +1,25 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId, xata } from "@/lib/database";
+import { requireDriverProfile } from "@/lib/driver-profile";
+import {
+  activeJobApplicationStatuses,
+  findBiddableJob,
+  getJobApplicationId,
+  rejectIfCannotBid,
+} from "@/lib/job-application";
+import { assignJobDriver, getJobVersion } from "@/lib/job-assignment";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
 import { APIResponse } from "@/lib/models/api-response";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { rejectIfBlocked } from "@/lib/user-block";
 import { convertDatetimeToISO } from "@/lib/utils";
+import { FetcherError } from "@xata.io/client";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
@@ -60,58 +78,99 @@ export const POST = async (request: NextRequest, { params }: Params) => {
      * oleh driver manapun untuk melakukan validasi harga penawaran
      * agar sesuai dengan harga standar
      */
-    const jobQuery = database
-      .selectFrom("jobs as j")
-      .select(["j.expected_price"])
-      .where("j.id", "=", jobId)
-      .where("j.freelancer", "is", null);
-    const jobResult = await jobQuery.executeTakeFirstOrThrow();
+    const jobResult = await findBiddableJob(jobId);
 
-    /**
-     * validasi jika harga penawaran kurang dari harga standar
-     * maka perlu memberikan pesan error
-     */
-    if (bidPrice < jobResult.expected_price)
-      return APIResponse.respondWithForbidden(
-        "Harga penawaran tidak boleh kurang dari harga standar!"
+    if (!jobResult)
+      return APIResponse.respondWithConflict(
+        "Pekerjaan ini sudah tidak menerima penawaran!"
       );
 
+    const bidError = await rejectIfCannotBid(
+      userId,
+      jobResult,
+      bidPrice,
+      bidNote
+    );
+    if (bidError) return bidError;
+
+    // setiap driver hanya boleh memiliki 1 penawaran aktif per job
+    const existingQuery = database
+      .selectFrom("job_applications as ja")
+      .select(["ja.status"])
+      .where("ja.job", "=", linkId<"jobs">(jobId))
+      .where("ja.freelancer", "=", linkId<"users">(userId));
+    const existingResult = await existingQuery.execute();
+
+    const existingMessage =
+      "Anda sudah mengajukan penawaran untuk pekerjaan ini!";
+    const hasActiveApplication = existingResult.some((it) =>
+      activeJobApplicationStatuses.some((status) => status === it.status)
+    );
+    if (hasActiveApplication)
+      return APIResponse.respondWithConflict(existingMessage);
+
     /**
-     * jika harga penawaran tidak sama dengan harga standar
-     * maka perlu memberikan alasan penawaran sehingga
-     * perlu validasi bidNote agar tidak kosong
+     * apply job, id lamaran yang sama (lihat getJobApplicationId)
+     * mencegah penawaran ganda ketika request dikirim bersamaan.
+     *
+     * job ikut diubah dengan ifVersion (tanpa mengubah isinya) agar
+     * versi job bertambah, sehingga penetapan driver atau perubahan
+     * status job yang membaca lamaran sebelum lamaran ini dibuat akan
+     * gagal dan tidak meninggalkan lamaran pending pada job tersebut
      */
-    if (bidPrice !== jobResult.expected_price) {
-      const validate2 = z
-        .object({
-          bidNote: z
-            .string({ required_error: "Alasan penawaran tidak boleh kosong!" })
-            .min(1, "Alasan penawaran tidak boleh kosong!"),
-        })
-        .safeParse({ bidNote });
-      if (!validate2.success)
-        return APIResponse.respondWithBadRequest(
-          validate2.error.errors.map((it) => ({
-            path: it.path[0] as string,
-            message: it.message,
-          }))
-        );
-    }
+    const applicationId = getJobApplicationId(
+      jobId,
+      userId,
+      existingResult.length
+    );
+    try {
+      await xata.transactions.run([
+        {
+          update: {
+            table: "jobs",
+            id: jobId,
+            ifVersion: jobResult.version,
+            upsert: false,
+            fields: { status: jobResult.status },
+          },
+        },
+        {
+          insert: {
+            table: "job_applications",
+            createOnly: true,
+            record: {
+              id: applicationId,
+              bid_price: bidPrice,
+              bid_note: bidNote,
+              status: JobApplicationStatus.PENDING,
+              freelancer: userId,
+              job: jobId,
+            },
+          },
+        },
+      ]);
+    } catch (e) {
+      if (e instanceof FetcherError) {
+        // lamaran dengan id yang sama sudah dibuat oleh request lain
+        const duplicateQuery = database
+          .selectFrom("job_applications as ja")
+          .select(["ja.id"])
+          .where("ja.id", "=", applicationId);
+        if (await duplicateQuery.executeTakeFirst())
+          return APIResponse.respondWithConflict(existingMessage);
 
-    // apply job
-    const query = database
-      .insertInto("job_applications")
-      .values({
-        bid_price: bidPrice,
-        bid_note: bidNote,
-        freelancer: userId,
-        job: jobId,
-      } as any)
-      .returning("id");
-    const result = await query.executeTakeFirstOrThrow();
+        // job sudah diubah oleh request lain sejak dibaca
+        if ((await getJobVersion(jobId)) !== jobResult.version)
+          return APIResponse.respondWithConflict(
+            "Pekerjaan telah berubah, silahkan coba lagi!"
+          );
+      }
+
+      throw e;
+    }
 
     return APIResponse.respondWithSuccess<POSTResponse>({
-      id: result.id,
+      id: applicationId,
     });
   } catch (e) {
     console.log(e);
@@ -124,10 +183,12 @@ interface GETResponse {
     id: string;
     price: number;
     bid_note: string;
+    status: string;
     created_at: string;
     updated_at: string;
     driver: {
       name: string;
+      avatar_url: string;
     };
   }[];
 }
@@ -165,11 +226,13 @@ export const GET = async (request: NextRequest, { params }: Params) => {
         "ja.id",
         "ja.bid_price as price",
         "ja.bid_note",
+        "ja.status",
         sql<string>`ja."xata.createdAt"`.as("created_at"),
         sql<string>`ja."xata.updatedAt"`.as("updated_at"),
         "u.name as driver_name",
+        "u.avatar_url as driver_avatar_url",
       ])
-      .where("ja.job", "=", jobId as any)
+      .where("ja.job", "=", linkId<"jobs">(jobId))
       .orderBy("ja.bid_price");
     const result = await query.execute();
 
@@ -178,10 +241,12 @@ export const GET = async (request: NextRequest, { params }: Params) => {
         id: it.id,
         price: it.price,
         bid_note: it.bid_note,
+        status: it.status,
         created_at: convertDatetimeToISO(it.created_at),
         updated_at: convertDatetimeToISO(it.updated_at),
         driver: {
           name: it.driver_name,
+          avatar_url: it.driver_avatar_url,
         },
       })),
     });
@@ -224,28 +289,74 @@ export const PATCH = async (request: NextRequest, { params }: Params) => {
         "Anda tidak memiliki akses untuk melakukan aksi ini!"
       );
 
+    const profileError = await requireDriverProfile(userId);
+    if (profileError) return profileError;
+
+    // validasi perpindahan status job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select([
+        "j.status",
+        sql<string>`j.customer`.as("customer_id"),
+        "j.expected_price",
+        sql<number>`j."xata.version"`.as("version"),
+      ])
+      .where("j.id", "=", jobId);
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.ASSIGNED,
+      Role.Driver
+    );
+
+    // driver yang saling memblokir dengan customer tidak dapat mengambil job
+    const blockError = await rejectIfBlocked(userId, [jobResult.customer_id]);
+    if (blockError) return blockError;
+
+    // lamaran milik driver (jika ada) ikut diterima
+    const applicationQuery = database
+      .selectFrom("job_applications as ja")
+      .select(["ja.id"])
+      .where("ja.job", "=", linkId<"jobs">(jobId))
+      .where("ja.freelancer", "=", linkId<"users">(userId))
+      .where("ja.status", "=", JobApplicationStatus.PENDING);
+    const applicationResult = await applicationQuery.executeTakeFirst();
+
     // apply job
-    const query = database
-      .updateTable("jobs")
-      .set({
-        freelancer: userId as any,
-        status: "ongoing",
-      })
-      .where("id", "=", jobId)
-      .where("freelancer", "is", null)
-      .returning("id");
-    const result = await query.executeTakeFirst();
+    const result = await assignJobDriver({
+      jobId,
+      jobVersion: jobResult.version,
+      previousStatus: currentStatus,
+      driverId: userId,
+      price: jobResult.expected_price,
+      actorId: userId,
+      role: Role.Driver,
+      acceptedApplicationId: applicationResult?.id,
+    });
 
     if (!result)
       return APIResponse.respondWithConflict(
-        "Pekerjaan ini sudah diambil oleh driver lain!"
+        "Pekerjaan sudah diambil driver lain atau lamaran telah berubah, silahkan coba lagi!"
       );
 
+    // membuat room chat order dan mengirim pesan system
+    await announceJobStatus(jobId, JobStatus.ASSIGNED);
+
     return APIResponse.respondWithSuccess<PATCHResponse>({
-      id: result.id,
+      id: jobId,
     });
   } catch (e) {
     console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
     return APIResponse.respondWithServerError();
   }
 };
@@ -283,23 +394,61 @@ export const DELETE = async (request: NextRequest, { params }: Params) => {
         "Anda tidak memiliki akses untuk melakukan aksi ini!"
       );
 
-    // cancel job
-    const query = database
-      .updateTable("jobs")
-      .set({
-        freelancer: null as any,
-        status: "",
-      })
-      .where("id", "=", jobId)
-      .where("freelancer", "=", userId as any)
-      .returning("id");
-    const result = await query.executeTakeFirstOrThrow();
+    // validasi perpindahan status job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select(["j.status", sql<number>`j."xata.version"`.as("version")])
+      .where("j.id", "=", jobId)
+      .where("j.freelancer", "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.OPEN,
+      Role.Driver
+    );
+
+    /**
+     * melepas job beserta riwayat statusnya, lamaran driver yang
+     * sebelumnya diterima ikut ditarik di dalam transaksi yang sama
+     */
+    const updated = await updateJobStatus({
+      jobId,
+      jobVersion: jobResult.version,
+      actorId: userId,
+      role: Role.Driver,
+      previousStatus: currentStatus,
+      newStatus: JobStatus.OPEN,
+      fields: { freelancer: null },
+      applications: {
+        from: JobApplicationStatus.ACCEPTED,
+        to: JobApplicationStatus.WITHDRAWN,
+        driverId: userId,
+      },
+    });
+
+    if (!updated)
+      return APIResponse.respondWithConflict(
+        "Status pekerjaan telah berubah, silahkan coba lagi!"
+      );
+
+    // driver dikeluarkan dari room chat order dan mengirim pesan system
+    await announceJobStatus(jobId, JobStatus.OPEN);
 
     return APIResponse.respondWithSuccess<DELETEResponse>({
-      id: result.id,
+      id: jobId,
     });
   } catch (e) {
     console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
     return APIResponse.respondWithServerError();
   }
 };
@@ -0,0 +1,85 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const jobsIdCancellationPaths = {
+  "/api/v1/jobs/{job_id}/cancellation": {
+    patch: {
+      operationId: "cancelJob",
+      tags: ["Job"],
+      summary: "membatalkan job oleh customer",
+      description:
+        "pembatalan bebas dilakukan selama job masih open, jika job sudah diambil driver maka reason_code wajib diisi dan driver akan menerima notifikasi",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "job_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                reason_code: {
+                  type: "string",
+                  enum: [
+                    "change_of_plans",
+                    "wrong_details",
+                    "driver_unresponsive",
+                    "driver_too_long",
+                    "other",
+                  ],
+                  "x-enum-varnames": [
+                    "ChangeOfPlans",
+                    "WrongDetails",
+                    "DriverUnresponsive",
+                    "DriverTooLong",
+                    "Other",
+                  ],
+                },
+                reason_note: {
+                  type: "string",
+                  description: "wajib diisi jika reason_code adalah other",
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "status"],
+                properties: {
+                  id: { type: "string" },
+                  status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,177 @@
+import {
+  JobApplicationStatus,
+  JobCancellationReason,
+  JobStatus,
+} from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
+import { APIResponse } from "@/lib/models/api-response";
+import { notifyUser } from "@/lib/mqtt-notifier";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    job_id: string;
+  };
+}
+
+interface PATCHBody {
+  reason_code?: string;
+  reason_note?: string;
+}
+interface PATCHResponse {
+  id: string;
+  status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // verifikasi request user
+    const { job_id: jobId } = params;
+    const { reason_code: reasonCode, reason_note: reasonNote }: PATCHBody =
+      await request.json();
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+        reasonCode: z
+          .nativeEnum(JobCancellationReason, {
+            errorMap: () => ({ message: "Alasan pembatalan tidak valid!" }),
+          })
+          .optional(),
+        reasonNote: z.string().optional(),
+      })
+      .safeParse({ jobId, reasonCode, reasonNote });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Customer)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // validasi perpindahan status job milik customer
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select([
+        "j.status",
+        sql<string | null>`j.freelancer`.as("freelancer_id"),
+        sql<number>`j."xata.version"`.as("version"),
+      ])
+      .where("j.id", "=", jobId)
+      .where("j.customer", "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.CANCELLED,
+      Role.Customer
+    );
+
+    /**
+     * pembatalan bebas dilakukan selama job masih open, jika job
+     * sudah diambil driver maka customer wajib memberikan alasan
+     */
+    if (currentStatus !== JobStatus.OPEN) {
+      const validate2 = z
+        .object({
+          reasonCode: z.nativeEnum(JobCancellationReason, {
+            required_error: "Alasan pembatalan tidak boleh kosong!",
+          }),
+          reasonNote:
+            reasonCode === JobCancellationReason.OTHER
+              ? z
+                  .string({
+                    required_error: "Keterangan pembatalan tidak boleh kosong!",
+                  })
+                  .min(1, "Keterangan pembatalan tidak boleh kosong!")
+              : z.string().optional(),
+        })
+        .safeParse({ reasonCode, reasonNote });
+      if (!validate2.success)
+        return APIResponse.respondWithBadRequest(
+          validate2.error.errors.map((it) => ({
+            path: it.path[0] as string,
+            message: it.message,
+          }))
+        );
+    }
+
+    /**
+     * cancel job beserta riwayat statusnya, lamaran yang masih pending
+     * otomatis ditolak di dalam transaksi yang sama
+     */
+    const updated = await updateJobStatus({
+      jobId,
+      jobVersion: jobResult.version,
+      actorId: userId,
+      role: Role.Customer,
+      previousStatus: currentStatus,
+      newStatus: JobStatus.CANCELLED,
+      fields: {
+        cancellation_reason: reasonCode ?? "",
+        cancellation_note: reasonNote ?? "",
+      },
+      applications: {
+        from: JobApplicationStatus.PENDING,
+        to: JobApplicationStatus.REJECTED,
+      },
+    });
+
+    if (!updated)
+      return APIResponse.respondWithConflict(
+        "Status pekerjaan telah berubah, silahkan coba lagi!"
+      );
+
+    await announceJobStatus(jobId, JobStatus.CANCELLED);
+
+    // beritahu driver yang sedang mengerjakan job
+    if (jobResult.freelancer_id)
+      await notifyUser(jobResult.freelancer_id, {
+        type: "job_cancelled",
+        title: "Pesanan dibatalkan",
+        body: "Customer membatalkan pesanan yang sedang Anda kerjakan",
+        data: {
+          job_id: jobId,
+          reason_code: reasonCode ?? "",
+        },
+      });
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: jobId,
+      status: JobStatus.CANCELLED,
+    });
+  } catch (e) {
+    console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const jobsIdCompletionPaths = {
@@ -26,6 +27,13 @@ export const jobsIdCompletionPaths = {
             },
           },
         },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
       },
     },
   },
@@ -1,6 +1,15 @@
+import { JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database } from "@/lib/database";
+import { database, linkId } from "@/lib/database";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
 import { APIResponse } from "@/lib/models/api-response";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -38,26 +47,60 @@ export const PATCH = async (request: NextRequest, { params }: Params) => {
     const { userId, role } = authorization;
 
     // verifikasi role user
-    if (role !== "driver")
+    if (role !== Role.Driver && role !== Role.Customer)
       return APIResponse.respondWithForbidden(
         "Anda tidak memiliki akses untuk melakukan aksi ini!"
       );
 
-    // complete job
-    const query = database
-      .updateTable("jobs")
-      .set({ status: "done" })
+    /**
+     * job dapat diselesaikan oleh driver yang mengerjakan job tersebut
+     * atau oleh customer pemilik job setelah pesanan diantarkan
+     */
+    const ownerColumn = role === Role.Driver ? "freelancer" : "customer";
+    const jobQuery = database
+      .selectFrom("jobs")
+      .select(["status", sql<number>`"xata.version"`.as("version")])
       .where("id", "=", jobId)
-      .where("freelancer", "=", userId as any)
-      .where("status", "=", "ongoing")
-      .returning("id");
-    const result = await query.executeTakeFirstOrThrow();
+      .where(ownerColumn, "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      JobStatus.DONE,
+      role
+    );
+
+    // complete job beserta riwayat statusnya
+    const updated = await updateJobStatus({
+      jobId,
+      jobVersion: jobResult.version,
+      actorId: userId,
+      role,
+      previousStatus: currentStatus,
+      newStatus: JobStatus.DONE,
+    });
+
+    if (!updated)
+      return APIResponse.respondWithConflict(
+        "Status pekerjaan telah berubah, silahkan coba lagi!"
+      );
+
+    await announceJobStatus(jobId, JobStatus.DONE);
 
     return APIResponse.respondWithSuccess<PATCHResponse>({
-      id: result.id,
+      id: jobId,
     });
   } catch (e) {
     console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
     return APIResponse.respondWithServerError();
   }
 };
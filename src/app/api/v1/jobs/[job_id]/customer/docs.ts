@@ -48,23 +48,61 @@ export const jobsIdCustomerPaths = {
                   },
                   status: {
                     type: "string",
-                    enum: ["", "ongoing", "done"],
-                    "x-enum-varnames": ["Initial", "Ongoing", "Done"],
+                    enum: [
+                      "open",
+                      "assigned",
+                      "picked_up",
+                      "delivered",
+                      "done",
+                      "cancelled",
+                      "expired",
+                    ],
+                    "x-enum-varnames": [
+                      "Open",
+                      "Assigned",
+                      "PickedUp",
+                      "Delivered",
+                      "Done",
+                      "Cancelled",
+                      "Expired",
+                    ],
                   },
                   applications: {
                     type: "array",
                     items: {
                       type: "object",
-                      required: ["id", "bid_price", "bid_note", "driver"],
+                      required: [
+                        "id",
+                        "bid_price",
+                        "bid_note",
+                        "status",
+                        "driver",
+                      ],
                       properties: {
                         id: { type: "string" },
                         bid_price: { type: "integer" },
                         bid_note: { type: "string" },
+                        status: {
+                          type: "string",
+                          enum: ["pending", "accepted", "rejected"],
+                          "x-enum-varnames": [
+                            "Pending",
+                            "Accepted",
+                            "Rejected",
+                          ],
+                        },
                         driver: {
                           type: "object",
-                          required: ["name"],
+                          required: ["name", "avatar_url", "completed_trips"],
                           properties: {
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
+                            rating: {
+                              type: "number",
+                              description:
+                                "rata-rata rating driver, kosong jika belum pernah diulas",
+                            },
+                            completed_trips: { type: "integer" },
                           },
                         },
                       },
@@ -72,12 +110,18 @@ export const jobsIdCustomerPaths = {
                   },
                   driver: {
                     type: "object",
-                    required: ["id", "name"],
+                    required: ["id", "name", "avatar_url"],
                     properties: {
                       id: { type: "string" },
                       name: { type: "string" },
+                      avatar_url: { type: "string" },
                     },
                   },
+                  room_id: {
+                    type: "string",
+                    description:
+                      "room chat dengan driver, kosong jika driver belum ditetapkan",
+                  },
                 },
               },
             },
@@ -1,6 +1,15 @@
+import { JobApplicationStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { parseJobStatus } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
+import {
+  getJobChatRoomId,
+  selectMemberChatRoomId,
+} from "@/lib/order-chat-room";
+import { notBlockedWith } from "@/lib/user-block";
+import { averageRating, completedTripCount } from "@/lib/user-rating";
 import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/postgres";
 import { NextRequest } from "next/server";
 import { z } from "zod";
@@ -24,14 +33,21 @@ interface GETResponse {
     id: string;
     bid_price: number;
     bid_note: string;
+    status: string;
     driver: {
       name: string;
+      avatar_url: string;
+      rating?: number;
+      completed_trips: number;
     };
   }[];
   driver?: {
     id: string;
     name: string;
+    avatar_url: string;
   };
+  // room chat dengan driver, dibuat ketika driver ditetapkan
+  room_id?: string;
 }
 export const GET = async (request: NextRequest, { params }: Params) => {
   try {
@@ -55,7 +71,7 @@ export const GET = async (request: NextRequest, { params }: Params) => {
     // verifikasi bearer token
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
-    const { role } = authorization;
+    const { role, userId } = authorization;
 
     // verifikasi role user
     if (role !== "customer")
@@ -83,16 +99,24 @@ export const GET = async (request: NextRequest, { params }: Params) => {
               "ja.id",
               "ja.bid_price",
               "ja.bid_note",
+              "ja.status",
               "u.name as driver_name",
+              "u.avatar_url as driver_avatar_url",
+              averageRating("u.id", Role.Driver).as("driver_rating"),
+              completedTripCount("u.id").as("driver_completed_trips"),
             ])
             .whereRef("ja.job", "=", "j.id")
+            .where("ja.status", "!=", JobApplicationStatus.WITHDRAWN)
+            // sembunyikan lamaran dari driver yang saling memblokir
+            .where(notBlockedWith("ja.freelancer", userId))
         ).as("applications"),
         jsonObjectFrom(
           eb
             .selectFrom("users as u")
-            .select(["u.id", "u.name"])
+            .select(["u.id", "u.name", "u.avatar_url"])
             .whereRef("u.id", "=", "j.freelancer")
         ).as("driver"),
+        selectMemberChatRoomId(getJobChatRoomId(jobId), userId),
       ])
       .where("j.id", "=", jobId);
     const result = await query.executeTakeFirst();
@@ -110,16 +134,21 @@ export const GET = async (request: NextRequest, { params }: Params) => {
       expected_price: result.expected_price,
       price: result.price,
       service: result.service,
-      status: result.status,
+      status: parseJobStatus(result.status) ?? result.status,
       applications: result.applications.map((it) => ({
         id: it.id,
         bid_price: it.bid_price,
         bid_note: it.bid_note,
+        status: it.status,
         driver: {
           name: it.driver_name,
+          avatar_url: it.driver_avatar_url,
+          rating: it.driver_rating ?? undefined,
+          completed_trips: Number(it.driver_completed_trips),
         },
       })),
       driver: result.driver || undefined,
+      room_id: result.room_id ?? undefined,
     });
   } catch (e) {
     console.log(e);
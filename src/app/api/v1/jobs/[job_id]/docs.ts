@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const jobsIdPaths = {
@@ -44,8 +45,25 @@ export const jobsIdPaths = {
                     properties: {
                       id: { type: "string" },
                       name: { type: "string" },
+                      avatar_url: { type: "string" },
                     },
                   },
+                  driver: {
+                    type: "object",
+                    description:
+                      "driver yang mengambil job, kosong jika job belum diambil",
+                    properties: {
+                      id: { type: "string" },
+                      name: { type: "string" },
+                      avatar_url: { type: "string" },
+                      vehicle: { $ref: swaggerComponentRefs.Vehicle },
+                    },
+                  },
+                  room_id: {
+                    type: "string",
+                    description:
+                      "room chat order, kosong jika driver belum ditetapkan atau user bukan customer/driver job",
+                  },
                 },
               },
             },
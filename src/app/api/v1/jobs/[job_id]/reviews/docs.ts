@@ -0,0 +1,143 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+const parameters = [
+  {
+    in: "path",
+    name: "job_id",
+    required: true,
+    schema: { type: "string" },
+  },
+];
+
+export const jobsIdReviewsPaths = {
+  "/api/v1/jobs/{job_id}/reviews": {
+    get: {
+      operationId: "getAllJobReviews",
+      tags: ["Job"],
+      summary: "mendapatkan ulasan dari customer dan driver pada job",
+      security: swaggerSecurity,
+      parameters,
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["reviews"],
+                properties: {
+                  reviews: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "rating",
+                        "comment",
+                        "reviewee_role",
+                        "reviewer",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        rating: { type: "integer" },
+                        comment: { type: "string" },
+                        reviewee_role: {
+                          type: "string",
+                          enum: ["customer", "driver"],
+                        },
+                        reviewer: {
+                          type: "object",
+                          required: ["id", "name", "avatar_url"],
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
+                          },
+                        },
+                        created_at: { type: "string", format: "datetime" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+    post: {
+      operationId: "createJobReview",
+      tags: ["Job"],
+      summary: "memberikan ulasan setelah job selesai",
+      description:
+        "customer mengulas driver dan driver mengulas customer, setiap user hanya dapat memberikan 1 ulasan per job",
+      security: swaggerSecurity,
+      parameters,
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["rating"],
+              properties: {
+                rating: { type: "integer", minimum: 1, maximum: 5 },
+                comment: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
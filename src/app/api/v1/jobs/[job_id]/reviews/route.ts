@@ -0,0 +1,186 @@
+import { JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { parseJobStatus } from "@/lib/job-state-machine";
+import { APIResponse } from "@/lib/models/api-response";
+import { createReview, validateReview } from "@/lib/review";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    job_id: string;
+  };
+}
+
+interface GETResponse {
+  reviews: {
+    id: string;
+    rating: number;
+    comment: string;
+    reviewee_role: string;
+    reviewer: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+    created_at: string;
+  }[];
+}
+export const GET = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { job_id: jobId } = params;
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+      })
+      .safeParse({ jobId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // ulasan hanya dapat dilihat oleh customer dan driver dari job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select(["j.id"])
+      .where("j.id", "=", jobId)
+      .where((eb) =>
+        eb.or([
+          eb("j.customer", "=", linkId<"users">(userId)),
+          eb("j.freelancer", "=", linkId<"users">(userId)),
+        ])
+      );
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const query = database
+      .selectFrom("reviews as r")
+      .innerJoin("users as u", "u.id", "r.reviewer")
+      .select([
+        "r.id",
+        "r.rating",
+        "r.comment",
+        "r.reviewee_role",
+        "u.id as reviewer_id",
+        "u.name as reviewer_name",
+        "u.avatar_url as reviewer_avatar_url",
+        sql<string>`r."xata.createdAt"`.as("created_at"),
+      ])
+      .where("r.job", "=", linkId<"jobs">(jobId))
+      .orderBy("created_at", "asc");
+    const result = await query.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      reviews: result.map((it) => ({
+        id: it.id,
+        rating: it.rating,
+        comment: it.comment,
+        reviewee_role: it.reviewee_role,
+        reviewer: {
+          id: it.reviewer_id,
+          name: it.reviewer_name,
+          avatar_url: it.reviewer_avatar_url,
+        },
+        created_at: convertDatetimeToISO(it.created_at),
+      })),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
+
+interface POSTBody {
+  rating: number;
+  comment?: string;
+}
+interface POSTResponse {
+  id: string;
+}
+export const POST = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { job_id: jobId } = params;
+    const { rating, comment }: POSTBody = await request.json();
+    const reviewError = validateReview(rating, comment);
+    if (reviewError) return reviewError;
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Driver && role !== Role.Customer)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    /**
+     * customer mengulas driver yang mengerjakan job dan driver mengulas
+     * customer pemilik job
+     */
+    const ownerColumn = role === Role.Driver ? "j.freelancer" : "j.customer";
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select([
+        "j.status",
+        sql<string>`j.customer`.as("customer_id"),
+        sql<string>`j.freelancer`.as("freelancer_id"),
+      ])
+      .where("j.id", "=", jobId)
+      .where(ownerColumn, "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    if (parseJobStatus(jobResult.status) !== JobStatus.DONE)
+      return APIResponse.respondWithForbidden(
+        "Ulasan hanya dapat diberikan setelah pesanan selesai!"
+      );
+
+    const reviewId = await createReview({
+      reviewerId: userId,
+      revieweeId:
+        role === Role.Driver ? jobResult.customer_id : jobResult.freelancer_id,
+      revieweeRole: role === Role.Driver ? Role.Customer : Role.Driver,
+      jobId,
+      rating,
+      comment,
+    });
+
+    if (!reviewId)
+      return APIResponse.respondWithConflict(
+        "Anda sudah memberikan ulasan untuk pesanan ini!"
+      );
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: reviewId,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
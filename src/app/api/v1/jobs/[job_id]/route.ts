@@ -1,6 +1,11 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { toVehicleSummary, VehicleSummary } from "@/lib/driver-profile";
 import { APIResponse } from "@/lib/models/api-response";
+import {
+  getJobChatRoomId,
+  selectMemberChatRoomId,
+} from "@/lib/order-chat-room";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
@@ -28,7 +33,17 @@ interface GETResponse {
   customer: {
     id: string;
     name: string;
+    avatar_url: string;
   };
+  // driver yang mengambil job beserta kendaraannya
+  driver?: {
+    id: string;
+    name: string;
+    avatar_url: string;
+    vehicle?: VehicleSummary;
+  };
+  // room chat order, hanya untuk customer dan driver job
+  room_id?: string;
 }
 export const GET = async (request: NextRequest, { params }: Params) => {
   try {
@@ -58,6 +73,8 @@ export const GET = async (request: NextRequest, { params }: Params) => {
     const query = database
       .selectFrom("jobs as j")
       .innerJoin("users as u", "u.id", "j.customer")
+      .leftJoin("users as d", "d.id", "j.freelancer")
+      .leftJoin("driver_profiles as dp", "dp.user", "j.freelancer")
       .select([
         "j.id",
         // "j.title",
@@ -73,6 +90,15 @@ export const GET = async (request: NextRequest, { params }: Params) => {
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
         "u.id as customer_id",
         "u.name as customer_name",
+        "u.avatar_url as customer_avatar_url",
+        "d.id as driver_id",
+        "d.name as driver_name",
+        "d.avatar_url as driver_avatar_url",
+        "dp.vehicle_type",
+        "dp.plate_number",
+        "dp.vehicle_color",
+        "dp.vehicle_photo_url",
+        selectMemberChatRoomId(getJobChatRoomId(jobId), authorization.userId),
       ])
       .where("j.id", "=", jobId);
     const result = await query.executeTakeFirst();
@@ -98,7 +124,17 @@ export const GET = async (request: NextRequest, { params }: Params) => {
       customer: {
         id: result.customer_id,
         name: result.customer_name,
+        avatar_url: result.customer_avatar_url,
       },
+      driver: result.driver_id
+        ? {
+            id: result.driver_id,
+            name: result.driver_name ?? "",
+            avatar_url: result.driver_avatar_url ?? "",
+            vehicle: toVehicleSummary(result),
+          }
+        : undefined,
+      room_id: result.room_id ?? undefined,
     });
   } catch (e) {
     console.log(e);
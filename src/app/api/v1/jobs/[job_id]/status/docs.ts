@@ -0,0 +1,61 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const jobsIdStatusPaths = {
+  "/api/v1/jobs/{job_id}/status": {
+    patch: {
+      operationId: "updateJobStatus",
+      tags: ["Job"],
+      summary: "memperbarui progres pengerjaan job oleh driver",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "job_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["status"],
+              properties: {
+                status: {
+                  type: "string",
+                  enum: ["picked_up", "delivered"],
+                  "x-enum-varnames": ["PickedUp", "Delivered"],
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id", "status"],
+                properties: {
+                  id: { type: "string" },
+                  status: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
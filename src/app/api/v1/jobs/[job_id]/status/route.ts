@@ -0,0 +1,112 @@
+import { JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import {
+  assertJobTransition,
+  JobTransitionError,
+} from "@/lib/job-state-machine";
+import { updateJobStatus } from "@/lib/job-status-update";
+import { APIResponse } from "@/lib/models/api-response";
+import { announceJobStatus } from "@/lib/order-chat-room";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    job_id: string;
+  };
+}
+
+interface PATCHBody {
+  status: string;
+}
+interface PATCHResponse {
+  id: string;
+  status: string;
+}
+export const PATCH = async (request: NextRequest, { params }: Params) => {
+  try {
+    // verifikasi request user
+    const { job_id: jobId } = params;
+    const { status }: PATCHBody = await request.json();
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+        status: z.enum([JobStatus.PICKED_UP, JobStatus.DELIVERED], {
+          errorMap: () => ({ message: "Status pekerjaan tidak valid!" }),
+        }),
+      })
+      .safeParse({ jobId, status });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    // verifikasi role user
+    if (role !== Role.Driver)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melakukan aksi ini!"
+      );
+
+    // validasi perpindahan status job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select(["j.status", sql<number>`j."xata.version"`.as("version")])
+      .where("j.id", "=", jobId)
+      .where("j.freelancer", "=", linkId<"users">(userId));
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    const newStatus = validate.data.status;
+    const currentStatus = assertJobTransition(
+      jobResult.status,
+      newStatus,
+      Role.Driver
+    );
+
+    // update status job beserta riwayat statusnya
+    const updated = await updateJobStatus({
+      jobId,
+      jobVersion: jobResult.version,
+      actorId: userId,
+      role: Role.Driver,
+      previousStatus: currentStatus,
+      newStatus,
+    });
+
+    if (!updated)
+      return APIResponse.respondWithConflict(
+        "Status pekerjaan telah berubah, silahkan coba lagi!"
+      );
+
+    await announceJobStatus(jobId, newStatus);
+
+    return APIResponse.respondWithSuccess<PATCHResponse>({
+      id: jobId,
+      status: newStatus,
+    });
+  } catch (e) {
+    console.log(e);
+
+    if (e instanceof JobTransitionError)
+      return APIResponse.respondWithConflict(e.message);
+
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,83 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const jobsIdTimelinePaths = {
+  "/api/v1/jobs/{job_id}/timeline": {
+    get: {
+      operationId: "getJobTimeline",
+      tags: ["Job"],
+      summary: "mendapatkan riwayat perubahan status job",
+      description:
+        "endpoint ini hanya dapat diakses oleh customer pemilik job dan driver yang mengerjakan job",
+      security: swaggerSecurity,
+      parameters: [
+        {
+          in: "path",
+          name: "job_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["events"],
+                properties: {
+                  events: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      required: [
+                        "id",
+                        "role",
+                        "previous_status",
+                        "new_status",
+                        "created_at",
+                      ],
+                      properties: {
+                        id: { type: "string" },
+                        role: {
+                          type: "string",
+                          enum: ["customer", "driver", "admin", "system"],
+                        },
+                        previous_status: { type: "string" },
+                        new_status: { type: "string" },
+                        created_at: { type: "string", format: "datetime" },
+                        actor: {
+                          type: "object",
+                          required: ["id", "name", "avatar_url"],
+                          properties: {
+                            id: { type: "string" },
+                            name: { type: "string" },
+                            avatar_url: { type: "string" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
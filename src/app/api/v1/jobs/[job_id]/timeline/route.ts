@@ -0,0 +1,112 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    job_id: string;
+  };
+}
+
+interface GETResponse {
+  events: {
+    id: string;
+    role: string;
+    previous_status: string;
+    new_status: string;
+    created_at: string;
+    actor?: {
+      id: string;
+      name: string;
+      avatar_url: string;
+    };
+  }[];
+}
+export const GET = async (request: NextRequest, { params }: Params) => {
+  try {
+    // verifikasi request user
+    const { job_id: jobId } = params;
+    const validate = z
+      .object({
+        jobId: z
+          .string({ required_error: "ID pekerjaan tidak boleh kosong!" })
+          .min(1, "ID pekerjaan tidak boleh kosong!"),
+      })
+      .safeParse({ jobId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    // timeline hanya dapat dilihat oleh customer dan driver dari job
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select([
+        sql<string>`j.customer`.as("customer_id"),
+        sql<string | null>`j.freelancer`.as("freelancer_id"),
+      ])
+      .where("j.id", "=", jobId);
+    const jobResult = await jobQuery.executeTakeFirst();
+
+    if (!jobResult)
+      return APIResponse.respondWithNotFound(
+        "Pekerjaan dengan ID tersebut tidak ditemukan!"
+      );
+
+    if (jobResult.customer_id !== userId && jobResult.freelancer_id !== userId)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk melihat riwayat pekerjaan ini!"
+      );
+
+    // mendapatkan riwayat perubahan status job
+    const query = database
+      .selectFrom("job_status_events as jse")
+      .leftJoin("users as u", "u.id", "jse.actor")
+      .select([
+        "jse.id",
+        "jse.role",
+        "jse.previous_status",
+        "jse.new_status",
+        sql<string>`jse."xata.createdAt"`.as("created_at"),
+        "u.id as actor_id",
+        "u.name as actor_name",
+        "u.avatar_url as actor_avatar_url",
+      ])
+      .where("jse.job", "=", linkId<"jobs">(jobId))
+      .orderBy("created_at", "asc");
+    const result = await query.execute();
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      events: result.map((it) => ({
+        id: it.id,
+        role: it.role,
+        previous_status: it.previous_status,
+        new_status: it.new_status,
+        created_at: convertDatetimeToISO(it.created_at),
+        actor:
+          it.actor_id && it.actor_name
+            ? {
+                id: it.actor_id,
+                name: it.actor_name,
+                avatar_url: it.actor_avatar_url ?? "",
+              }
+            : undefined,
+      })),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
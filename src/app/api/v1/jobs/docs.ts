@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const jobsPaths = {
@@ -23,13 +24,28 @@ export const jobsPaths = {
               properties: {
                 note: { type: "string" },
                 pickup_location: { type: "string" },
+                pickup_latitude: { type: "number", format: "float" },
+                pickup_longitude: { type: "number", format: "float" },
                 destination_location: { type: "string" },
+                destination_latitude: { type: "number", format: "float" },
+                destination_longitude: { type: "number", format: "float" },
                 service: {
                   type: "string",
                   enum: ["antar-jemput", "jasa-titip"],
                   "x-enum-varnames": ["AntarJemput", "JasaTitip"],
                 },
                 expected_price: { type: "integer" },
+                needed_at: {
+                  type: "string",
+                  format: "datetime",
+                  description: "waktu job dibutuhkan oleh customer",
+                },
+                expires_at: {
+                  type: "string",
+                  format: "datetime",
+                  description:
+                    "waktu job kedaluwarsa, default needed_at atau 1 hari setelah job dibuat",
+                },
               },
             },
           },
@@ -63,14 +79,95 @@ export const jobsPaths = {
           required: false,
           default: 1,
         },
+        {
+          in: "query",
+          name: "service",
+          schema: {
+            type: "string",
+            enum: ["antar-jemput", "jasa-titip"],
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "min_price",
+          schema: {
+            type: "number",
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "max_price",
+          schema: {
+            type: "number",
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "search",
+          description:
+            "pencarian berdasarkan lokasi penjemputan, lokasi tujuan dan catatan",
+          schema: {
+            type: "string",
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "sort",
+          schema: {
+            type: "string",
+            enum: ["newest", "oldest", "price_asc", "price_desc", "distance"],
+          },
+          required: false,
+          description:
+            "default distance jika lat dan lng diisi, selain itu newest",
+        },
+        {
+          in: "query",
+          name: "lat",
+          description: "latitude posisi driver",
+          schema: {
+            type: "number",
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "lng",
+          description: "longitude posisi driver",
+          schema: {
+            type: "number",
+          },
+          required: false,
+        },
+        {
+          in: "query",
+          name: "radius_km",
+          description:
+            "radius pencarian dari titik penjemputan job, membutuhkan lat dan lng",
+          schema: {
+            type: "number",
+          },
+          required: false,
+        },
       ],
       responses: {
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
         200: {
           content: {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["jobs"],
+                required: ["jobs", "page_info"],
                 properties: {
                   jobs: {
                     type: "array",
@@ -91,25 +188,47 @@ export const jobsPaths = {
                         id: { type: "string" },
                         note: { type: "string" },
                         pickup_location: { type: "string" },
+                        pickup_latitude: { type: "number", format: "float" },
+                        pickup_longitude: { type: "number", format: "float" },
                         destination_location: { type: "string" },
+                        destination_latitude: {
+                          type: "number",
+                          format: "float",
+                        },
+                        destination_longitude: {
+                          type: "number",
+                          format: "float",
+                        },
                         service: {
                           type: "string",
                           enum: ["antar-jemput", "jasa-titip"],
                           "x-enum-varnames": ["AntarJemput", "JasaTitip"],
                         },
                         expected_price: { type: "integer" },
+                        distance_km: {
+                          type: "number",
+                          format: "float",
+                          description:
+                            "jarak titik penjemputan dari posisi driver, hanya ada jika lat dan lng diisi",
+                        },
+                        needed_at: { type: "string", format: "datetime" },
+                        expires_at: { type: "string", format: "datetime" },
                         created_at: { type: "string", format: "datetime" },
                         updated_at: { type: "string", format: "datetime" },
                         customer: {
                           type: "object",
-                          required: ["name"],
+                          required: ["name", "avatar_url"],
                           properties: {
                             name: { type: "string" },
+                            avatar_url: { type: "string" },
                           },
                         },
                       },
                     },
                   },
+                  page_info: {
+                    $ref: swaggerComponentRefs.PageInfo,
+                  },
                 },
               },
             },
@@ -1,6 +1,11 @@
+import { JobStatus } from "@/constants/constants";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { haversineDistanceKm } from "@/lib/geo";
+import { jobStatusValues } from "@/lib/job-state-machine";
 import { APIResponse } from "@/lib/models/api-response";
+import { notBlockedWith } from "@/lib/user-block";
+import { getPriceQuote } from "@/lib/price-quote";
 import { convertDatetimeToISO } from "@/lib/utils";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
@@ -9,9 +14,15 @@ import { z } from "zod";
 interface POSTBody {
   note: string;
   pickup_location: string;
+  pickup_latitude?: number;
+  pickup_longitude?: number;
   destination_location: string;
+  destination_latitude?: number;
+  destination_longitude?: number;
   service: string;
   expected_price: number;
+  needed_at?: string;
+  expires_at?: string;
 }
 interface POSTResponse {
   id: string;
@@ -22,9 +33,15 @@ export const POST = async (request: NextRequest) => {
     const {
       note,
       pickup_location: pickupLocation,
+      pickup_latitude: pickupLatitude,
+      pickup_longitude: pickupLongitude,
       destination_location: destinationLocation,
+      destination_latitude: destinationLatitude,
+      destination_longitude: destinationLongitude,
       service,
       expected_price: expectedPrice,
+      needed_at: neededAt,
+      expires_at: expiresAt,
     }: POSTBody = await request.json();
 
     const validate = z
@@ -33,9 +50,29 @@ export const POST = async (request: NextRequest) => {
         pickupLocation: z
           .string({ required_error: "Lokasi penjemputan tidak boleh kosong!" })
           .min(1, "Lokasi penjemputan tidak boleh kosong!"),
+        pickupLatitude: z
+          .number({ invalid_type_error: "Latitude penjemputan tidak valid!" })
+          .min(-90, "Latitude penjemputan tidak valid!")
+          .max(90, "Latitude penjemputan tidak valid!")
+          .optional(),
+        pickupLongitude: z
+          .number({ invalid_type_error: "Longitude penjemputan tidak valid!" })
+          .min(-180, "Longitude penjemputan tidak valid!")
+          .max(180, "Longitude penjemputan tidak valid!")
+          .optional(),
         destinationLocation: z
           .string({ required_error: "Lokasi tujuan tidak boleh kosong!" })
           .min(1, "Lokasi tujuan tidak boleh kosong!"),
+        destinationLatitude: z
+          .number({ invalid_type_error: "Latitude tujuan tidak valid!" })
+          .min(-90, "Latitude tujuan tidak valid!")
+          .max(90, "Latitude tujuan tidak valid!")
+          .optional(),
+        destinationLongitude: z
+          .number({ invalid_type_error: "Longitude tujuan tidak valid!" })
+          .min(-180, "Longitude tujuan tidak valid!")
+          .max(180, "Longitude tujuan tidak valid!")
+          .optional(),
         service: z.enum(["antar-jemput", "jasa-titip"], {
           required_error: "Jenis layanan tidak boleh kosong!",
         }),
@@ -44,13 +81,54 @@ export const POST = async (request: NextRequest) => {
             required_error: "Harga yang diharapkan tidak boleh kosong!",
           })
           .min(0, "Harga yang diharapkan tidak boleh kurang dari 0!"),
+        neededAt: z
+          .string()
+          .datetime({ message: "Format waktu dibutuhkan tidak valid!" })
+          .refine(
+            (it) => Date.parse(it) > Date.now(),
+            "Waktu dibutuhkan harus setelah waktu sekarang!"
+          )
+          .optional(),
+        expiresAt: z
+          .string()
+          .datetime({ message: "Format waktu kedaluwarsa tidak valid!" })
+          .refine(
+            (it) => Date.parse(it) > Date.now(),
+            "Waktu kedaluwarsa harus setelah waktu sekarang!"
+          )
+          .optional(),
       })
+      // koordinat harus diisi berpasangan (latitude dan longitude)
+      .refine(
+        (it) =>
+          (it.pickupLatitude === undefined) ===
+          (it.pickupLongitude === undefined),
+        {
+          message: "Koordinat penjemputan harus diisi lengkap!",
+          path: ["pickupLatitude"],
+        }
+      )
+      .refine(
+        (it) =>
+          (it.destinationLatitude === undefined) ===
+          (it.destinationLongitude === undefined),
+        {
+          message: "Koordinat tujuan harus diisi lengkap!",
+          path: ["destinationLatitude"],
+        }
+      )
       .safeParse({
         note,
         pickupLocation,
+        pickupLatitude,
+        pickupLongitude,
         destinationLocation,
+        destinationLatitude,
+        destinationLongitude,
         service,
         expectedPrice,
+        neededAt,
+        expiresAt,
       });
     if (!validate.success)
       return APIResponse.respondWithBadRequest(
@@ -71,15 +149,60 @@ export const POST = async (request: NextRequest) => {
         "Anda tidak memiliki akses untuk membuat pekerjaan!"
       );
 
+    /**
+     * jika koordinat penjemputan dan tujuan diisi, harga yang diharapkan
+     * harus berada di dalam rentang estimasi harga berdasarkan jarak
+     */
+    if (
+      pickupLatitude !== undefined &&
+      pickupLongitude !== undefined &&
+      destinationLatitude !== undefined &&
+      destinationLongitude !== undefined
+    ) {
+      const quote = await getPriceQuote({
+        service,
+        pickupLatitude,
+        pickupLongitude,
+        destinationLatitude,
+        destinationLongitude,
+      });
+      if (
+        quote &&
+        (expectedPrice < quote.min_price || expectedPrice > quote.max_price)
+      )
+        return APIResponse.respondWithBadRequest([
+          {
+            path: "expectedPrice",
+            message: `Harga yang diharapkan harus di antara ${quote.min_price} dan ${quote.max_price}!`,
+          },
+        ]);
+    }
+
+    /**
+     * jika waktu kedaluwarsa tidak diisi, job kedaluwarsa pada waktu
+     * dibutuhkan atau 1 hari setelah dibuat
+     */
+    const jobExpiresAt =
+      expiresAt ??
+      neededAt ??
+      new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
     // membuat job baru
     const query = database
       .insertInto("jobs")
       .values({
         note,
         pickup_location: pickupLocation,
+        pickup_latitude: pickupLatitude ?? null,
+        pickup_longitude: pickupLongitude ?? null,
         destination_location: destinationLocation,
+        destination_latitude: destinationLatitude ?? null,
+        destination_longitude: destinationLongitude ?? null,
         service,
         expected_price: expectedPrice,
+        status: JobStatus.OPEN,
+        needed_at: neededAt ?? null,
+        expires_at: jobExpiresAt,
         customer: userId,
       } as any)
       .returning(["id"]);
@@ -99,15 +222,28 @@ interface GETResponse {
     id: string;
     note: string;
     pickup_location: string;
+    pickup_latitude?: number;
+    pickup_longitude?: number;
     destination_location: string;
+    destination_latitude?: number;
+    destination_longitude?: number;
     service: string;
     expected_price: number;
+    distance_km?: number;
+    needed_at?: string;
+    expires_at?: string;
     created_at: string;
     updated_at: string;
     customer: {
       name: string;
+      avatar_url: string;
     };
   }[];
+  page_info: {
+    count: number;
+    page: number;
+    total_pages: number;
+  };
 }
 export async function GET(request: NextRequest) {
   try {
@@ -115,10 +251,108 @@ export async function GET(request: NextRequest) {
     const authorization = await verifyBearerToken(request);
     if (!authorization) return APIResponse.respondWithUnauthorized();
 
-    // mendapatkan page and limit
+    // mendapatkan page, limit, filter dan sort
     const searchParams = request.nextUrl.searchParams;
-    const page = Number(searchParams.get("page") || "1");
-    const limit = Number(searchParams.get("limit") || "10");
+    const validate = z
+      .object({
+        page: z.coerce
+          .number({ invalid_type_error: "Halaman harus berupa angka!" })
+          .int()
+          .min(1, "Halaman tidak boleh kurang dari 1!")
+          .default(1),
+        limit: z.coerce
+          .number({ invalid_type_error: "Limit harus berupa angka!" })
+          .int()
+          .min(1, "Limit tidak boleh kurang dari 1!")
+          .default(10),
+        service: z
+          .enum(["antar-jemput", "jasa-titip"], {
+            errorMap: () => ({ message: "Jenis layanan tidak valid!" }),
+          })
+          .optional(),
+        min_price: z.coerce
+          .number({ invalid_type_error: "Harga minimum harus berupa angka!" })
+          .min(0, "Harga minimum tidak boleh kurang dari 0!")
+          .optional(),
+        max_price: z.coerce
+          .number({ invalid_type_error: "Harga maksimum harus berupa angka!" })
+          .min(0, "Harga maksimum tidak boleh kurang dari 0!")
+          .optional(),
+        search: z.string().trim().optional(),
+        lat: z.coerce
+          .number({ invalid_type_error: "Latitude harus berupa angka!" })
+          .min(-90, "Latitude tidak valid!")
+          .max(90, "Latitude tidak valid!")
+          .optional(),
+        lng: z.coerce
+          .number({ invalid_type_error: "Longitude harus berupa angka!" })
+          .min(-180, "Longitude tidak valid!")
+          .max(180, "Longitude tidak valid!")
+          .optional(),
+        radius_km: z.coerce
+          .number({ invalid_type_error: "Radius harus berupa angka!" })
+          .positive("Radius harus lebih dari 0!")
+          .optional(),
+        sort: z
+          .enum(["newest", "oldest", "price_asc", "price_desc", "distance"], {
+            errorMap: () => ({ message: "Urutan tidak valid!" }),
+          })
+          .optional(),
+      })
+      .refine(
+        (it) =>
+          it.min_price === undefined ||
+          it.max_price === undefined ||
+          it.min_price <= it.max_price,
+        {
+          message: "Harga minimum tidak boleh lebih dari harga maksimum!",
+          path: ["min_price"],
+        }
+      )
+      .refine((it) => (it.lat === undefined) === (it.lng === undefined), {
+        message: "Latitude dan longitude harus diisi lengkap!",
+        path: ["lat"],
+      })
+      .refine(
+        (it) =>
+          it.lat !== undefined ||
+          (it.radius_km === undefined && it.sort !== "distance"),
+        {
+          message: "Latitude dan longitude tidak boleh kosong!",
+          path: ["lat"],
+        }
+      )
+      .safeParse({
+        page: searchParams.get("page") || undefined,
+        limit: searchParams.get("limit") || undefined,
+        service: searchParams.get("service") || undefined,
+        min_price: searchParams.get("min_price") || undefined,
+        max_price: searchParams.get("max_price") || undefined,
+        search: searchParams.get("search") || undefined,
+        lat: searchParams.get("lat") || undefined,
+        lng: searchParams.get("lng") || undefined,
+        radius_km: searchParams.get("radius_km") || undefined,
+        sort: searchParams.get("sort") || undefined,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+    const {
+      page,
+      limit,
+      service,
+      min_price: minPrice,
+      max_price: maxPrice,
+      search,
+      lat,
+      lng,
+      radius_km: radiusKm,
+      sort = lat !== undefined ? "distance" : "newest",
+    } = validate.data;
 
     // const jobsQuery = database
     //   .selectFrom((qb) =>
@@ -174,27 +408,107 @@ export async function GET(request: NextRequest) {
     //   .orderBy("created_at", "desc");
 
     /**
-     * masih kurang filter berdasarkan status, untuk role driver
-     * tampilkan hanya jobs yang masih belum diambil
+     * hanya tampilkan jobs yang masih belum diambil driver, belum
+     * kedaluwarsa dan bukan milik user yang saling memblokir, kemudian
+     * terapkan filter dari query params
      */
-    const jobsQuery = database
+    let filteredJobsQuery = database
       .selectFrom("jobs as j")
+      .where("j.freelancer", "is", null)
+      .where("j.status", "in", jobStatusValues(JobStatus.OPEN))
+      .where(notBlockedWith("j.customer", authorization.userId))
+      .where((eb) =>
+        eb.or([
+          eb("j.expires_at", "is", null),
+          eb("j.expires_at", ">", sql<Date>`NOW()`),
+        ])
+      );
+    if (service)
+      filteredJobsQuery = filteredJobsQuery.where("j.service", "=", service);
+    if (minPrice !== undefined)
+      filteredJobsQuery = filteredJobsQuery.where(
+        "j.expected_price",
+        ">=",
+        minPrice
+      );
+    if (maxPrice !== undefined)
+      filteredJobsQuery = filteredJobsQuery.where(
+        "j.expected_price",
+        "<=",
+        maxPrice
+      );
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+      filteredJobsQuery = filteredJobsQuery.where((eb) =>
+        eb.or([
+          eb("j.pickup_location", "ilike", pattern),
+          eb("j.destination_location", "ilike", pattern),
+          eb("j.note", "ilike", pattern),
+        ])
+      );
+    }
+
+    /**
+     * jika koordinat driver diisi, hanya tampilkan jobs yang memiliki
+     * koordinat penjemputan dan berada di dalam radius (jika diisi)
+     */
+    const distanceKm =
+      lat !== undefined && lng !== undefined
+        ? haversineDistanceKm(
+            "j.pickup_latitude",
+            "j.pickup_longitude",
+            lat,
+            lng
+          )
+        : undefined;
+    if (distanceKm) {
+      filteredJobsQuery = filteredJobsQuery
+        .where("j.pickup_latitude", "is not", null)
+        .where("j.pickup_longitude", "is not", null);
+      if (radiusKm !== undefined)
+        filteredJobsQuery = filteredJobsQuery.where(distanceKm, "<=", radiusKm);
+    }
+
+    // hitung total data
+    const totalCount = await filteredJobsQuery
+      .select(sql<number>`count(*)`.as("count"))
+      .executeTakeFirst();
+
+    const [sortColumn, sortDirection] = (
+      {
+        newest: ["created_at", "desc"],
+        oldest: ["created_at", "asc"],
+        price_asc: ["j.expected_price", "asc"],
+        price_desc: ["j.expected_price", "desc"],
+        distance: ["distance_km", "asc"],
+      } as const
+    )[sort];
+
+    const jobsQuery = filteredJobsQuery
       .innerJoin("users as u", "u.id", "j.customer")
       .select([
         "j.id",
         "j.note",
         "j.pickup_location",
+        "j.pickup_latitude",
+        "j.pickup_longitude",
         "j.destination_location",
+        "j.destination_latitude",
+        "j.destination_longitude",
         "j.service",
         "j.expected_price",
+        (distanceKm ?? sql<number | null>`NULL`).as("distance_km"),
+        "j.needed_at",
+        "j.expires_at",
         sql<string>`j."xata.createdAt"`.as("created_at"),
         sql<string>`j."xata.updatedAt"`.as("updated_at"),
         "u.name as customer_name",
+        "u.avatar_url as customer_avatar_url",
       ])
-      .where("j.freelancer", "is", null)
       .limit(limit)
       .offset((page - 1) * limit)
-      .orderBy("created_at", "desc");
+      .orderBy(sortColumn, sortDirection)
+      .orderBy("j.id");
     const jobsResult = await jobsQuery.execute();
 
     return APIResponse.respondWithSuccess<GETResponse>({
@@ -202,15 +516,35 @@ export async function GET(request: NextRequest) {
         id: it.id,
         note: it.note,
         pickup_location: it.pickup_location,
+        pickup_latitude: it.pickup_latitude ?? undefined,
+        pickup_longitude: it.pickup_longitude ?? undefined,
         destination_location: it.destination_location,
+        destination_latitude: it.destination_latitude ?? undefined,
+        destination_longitude: it.destination_longitude ?? undefined,
         service: it.service,
         expected_price: it.expected_price,
+        distance_km:
+          it.distance_km !== null
+            ? Math.round(Number(it.distance_km) * 100) / 100
+            : undefined,
+        needed_at: it.needed_at
+          ? new Date(it.needed_at).toISOString()
+          : undefined,
+        expires_at: it.expires_at
+          ? new Date(it.expires_at).toISOString()
+          : undefined,
         created_at: convertDatetimeToISO(it.created_at),
         updated_at: convertDatetimeToISO(it.updated_at),
         customer: {
           name: it.customer_name,
+          avatar_url: it.customer_avatar_url,
         },
       })),
+      page_info: {
+        count: jobsResult.length,
+        page: page,
+        total_pages: Math.ceil(Number(totalCount?.count || 0) / limit),
+      },
     });
   } catch (e) {
     console.log(e);
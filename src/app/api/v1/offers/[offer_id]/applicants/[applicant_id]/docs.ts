@@ -71,6 +71,9 @@ export const detailApplicantOfferByIdPaths = {
                           name: {
                             type: "string",
                           },
+                          avatar_url: {
+                            type: "string",
+                          },
                         },
                       },
                       applicant_status: {
@@ -79,6 +82,11 @@ export const detailApplicantOfferByIdPaths = {
                       final_price: {
                         type: "number",
                       },
+                      room_id: {
+                        type: "string",
+                        description:
+                          "room chat order, kosong jika applicant belum diterima",
+                      },
                     },
                   },
                 },
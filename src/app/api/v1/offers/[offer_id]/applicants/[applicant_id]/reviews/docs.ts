@@ -0,0 +1,89 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const reviewApplicantOfferByIdPaths = {
+  "/api/v1/offers/{offer_id}/applicants/{applicant_id}/reviews": {
+    post: {
+      tags: ["Offers"],
+      security: swaggerSecurity,
+      summary: "Memberikan ulasan setelah pesanan selesai",
+      description:
+        "Driver pembuat offer mengulas customer dan customer pelamar mengulas driver, setiap user hanya dapat memberikan 1 ulasan per pelamar",
+      parameters: [
+        {
+          name: "offer_id",
+          in: "path",
+          required: true,
+          schema: {
+            type: "string",
+          },
+        },
+        {
+          name: "applicant_id",
+          in: "path",
+          required: true,
+          schema: {
+            type: "string",
+          },
+        },
+      ],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["rating"],
+              properties: {
+                rating: { type: "integer", minimum: 1, maximum: 5 },
+                comment: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+        409: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ConflictError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
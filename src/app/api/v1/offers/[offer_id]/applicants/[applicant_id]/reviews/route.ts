@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { createReview, validateReview } from "@/lib/review";
+import { ApplicantStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { sql } from "kysely";
+
+interface POSTBody {
+  rating: number;
+  comment?: string;
+}
+interface POSTResponse {
+  id: string;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { offer_id: string; applicant_id: string } }
+) {
+  try {
+    const { rating, comment }: POSTBody = await request.json();
+    const reviewError = validateReview(rating, comment);
+    if (reviewError) return reviewError;
+
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId, role } = authorization;
+
+    const applicant = await database
+      .selectFrom("offer_applicants as oa")
+      .innerJoin("offers as o", "o.id", "oa.offer")
+      .where("oa.id", "=", params.applicant_id)
+      .where("oa.offer", "=", linkId<"offers">(params.offer_id))
+      .select([
+        "oa.id",
+        "oa.applicant_status",
+        sql<string>`oa.customer`.as("customer_id"),
+        sql<string>`o.freelancer`.as("freelancer_id"),
+      ])
+      .executeTakeFirst();
+
+    if (!applicant) {
+      return APIResponse.respondWithNotFound("Applicant tidak ditemukan");
+    }
+
+    // Hanya driver yang membuat offer dan customer yang apply yang bisa memberikan ulasan
+    const canReview =
+      (role === Role.Driver && applicant.freelancer_id === userId) ||
+      (role === Role.Customer && applicant.customer_id === userId);
+
+    if (!canReview) {
+      return APIResponse.respondWithForbidden(
+        "Anda tidak memiliki akses untuk memberikan ulasan pada applicant ini"
+      );
+    }
+
+    if (applicant.applicant_status !== ApplicantStatus.DONE) {
+      return APIResponse.respondWithForbidden(
+        "Ulasan hanya dapat diberikan setelah pesanan selesai!"
+      );
+    }
+
+    // driver mengulas customer dan customer mengulas driver
+    const reviewId = await createReview({
+      reviewerId: userId,
+      revieweeId:
+        role === Role.Driver ? applicant.customer_id : applicant.freelancer_id,
+      revieweeRole: role === Role.Driver ? Role.Customer : Role.Driver,
+      offerApplicantId: applicant.id,
+      rating,
+      comment,
+    });
+
+    if (!reviewId) {
+      return APIResponse.respondWithConflict(
+        "Anda sudah memberikan ulasan untuk pesanan ini!"
+      );
+    }
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: reviewId,
+    });
+  } catch (e) {
+    console.error("POST Error:", e);
+    return APIResponse.respondWithServerError();
+  }
+}
@@ -3,6 +3,11 @@ import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { ApplicantStatus } from "@/constants/constants";
+import {
+  announceApplicantStatus,
+  getOfferApplicantChatRoomId,
+  selectMemberChatRoomId,
+} from "@/lib/order-chat-room";
 
 export async function GET(
   request: NextRequest,
@@ -32,7 +37,12 @@ export async function GET(
         "oa.destination_longitude",
         "u.id as customer_id",
         "u.name as customer_name",
+        "u.avatar_url as customer_avatar_url",
         "o.freelancer as freelancer_id",
+        selectMemberChatRoomId(
+          getOfferApplicantChatRoomId(params.applicant_id),
+          authorization.userId
+        ),
       ])
       .executeTakeFirst();
 
@@ -60,6 +70,7 @@ export async function GET(
         customer: {
           id: applicant.customer_id,
           name: applicant.customer_name,
+          avatar_url: applicant.customer_avatar_url,
         },
         pickup_location: applicant.pickup_location,
         destination_location: applicant.destination_location,
@@ -74,6 +85,8 @@ export async function GET(
         note: applicant.note,
         applicant_status: applicant.applicant_status,
         final_price: applicant.final_price,
+        // room chat order, dibuat ketika applicant diterima
+        room_id: applicant.room_id ?? undefined,
       },
     });
   } catch (e) {
@@ -104,7 +117,7 @@ export async function PATCH(
       .selectFrom("offer_applicants")
       .where("id", "=", params.applicant_id)
       .where("offer", "=", params.offer_id as any)
-      .select(["id", "offer"])
+      .select(["id", "offer", "applicant_status"])
       .executeTakeFirst();
 
     if (!applicant) {
@@ -118,6 +131,11 @@ export async function PATCH(
       .where("id", "=", params.applicant_id)
       .execute();
 
+    // room chat order dibuat ketika applicant diterima, setiap
+    // perubahan status dikirim sebagai pesan system
+    if (applicant.applicant_status !== status)
+      await announceApplicantStatus(params.applicant_id, status);
+
     return APIResponse.respondWithSuccess({
       success: true,
       message: "Status berhasil diupdate",
@@ -64,6 +64,9 @@ export const applicantsOfferPaths = {
                             name: {
                               type: "string",
                             },
+                            avatar_url: {
+                              type: "string",
+                            },
                             phone_number: {
                               type: "string",
                             },
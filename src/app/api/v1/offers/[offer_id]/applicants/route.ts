@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
 import { verifyBearerToken } from "@/lib/bearer-token";
+import { notBlockedWith } from "@/lib/user-block";
 import { sql } from "kysely";
 
 interface GETResponse {
@@ -18,6 +19,7 @@ interface GETResponse {
     customer: {
       id: string;
       name: string;
+      avatar_url: string;
     };
   }[];
 }
@@ -66,8 +68,13 @@ export async function GET(
         "offer_applicants.destination_longitude",
         sql<string>`users.id`.as('customer_id'),
         sql<string>`users.name`.as('customer_name'),
+        sql<string>`users.avatar_url`.as('customer_avatar_url'),
       ])
       .where("offer_applicants.offer", "=", offer_id as any)
+      // sembunyikan applicant dari customer yang saling memblokir
+      .where(
+        notBlockedWith("offer_applicants.customer", authorization.userId)
+      )
       .execute();
 
     const formattedApplicants = applicants.map((applicant) => ({
@@ -83,6 +90,7 @@ export async function GET(
       customer: {
         id: applicant.customer_id,
         name: applicant.customer_name,
+        avatar_url: applicant.customer_avatar_url,
       },
     }));
 
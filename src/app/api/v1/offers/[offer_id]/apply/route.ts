@@ -1,6 +1,7 @@
 import { verifyBearerToken } from "@/lib/bearer-token";
-import { database, xata } from "@/lib/database";
+import { database, linkId, xata } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
+import { rejectIfBlocked } from "@/lib/user-block";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
@@ -90,7 +91,12 @@ export async function POST(
 
     const offer = await database
       .selectFrom("offers")
-      .select(["id", "offer_status", "max_participants"])
+      .select([
+        "id",
+        "offer_status",
+        "max_participants",
+        sql<string>`freelancer`.as("freelancer_id"),
+      ])
       .where("id", "=", offer_id)
       .where("offer_status", "=", "available")
       .where("available_until", ">", sql<Date>`NOW()`)
@@ -102,10 +108,16 @@ export async function POST(
       );
     }
 
+    // customer yang saling memblokir dengan driver tidak dapat melamar
+    const blockError = await rejectIfBlocked(authorization.userId, [
+      offer.freelancer_id,
+    ]);
+    if (blockError) return blockError;
+
     // Hitung jumlah aplikasi yang sudah ada
     const applicantsCount = await database
       .selectFrom("offer_applicants")
-      .where("offer", "=", offer_id as any)
+      .where("offer", "=", linkId<"offers">(offer_id))
       .select(sql`count(*)`.as("count"))
       .executeTakeFirst();
 
@@ -121,8 +133,8 @@ export async function POST(
     const existingApplication = await database
       .selectFrom("offer_applicants")
       .select("id")
-      .where("customer", "=", authorization.userId as any)
-      .where("offer", "=", offer_id as any)
+      .where("customer", "=", linkId<"users">(authorization.userId))
+      .where("offer", "=", linkId<"offers">(offer_id))
       .executeTakeFirst();
 
     if (existingApplication) {
@@ -245,8 +257,8 @@ export async function DELETE(
     // cancel offer aplicant, atau cancel dari customer
     const result = await database
       .deleteFrom("offer_applicants")
-      .where("customer", "=", userId as any)
-      .where("offer", "=", offerId as any)
+      .where("customer", "=", linkId<"users">(userId))
+      .where("offer", "=", linkId<"offers">(offerId))
       .returning("id")
       .executeTakeFirstOrThrow();
 
@@ -378,8 +390,8 @@ export async function PATCH(
     // Fetch the existing offer application from the database
     const existingApplication = await database
       .selectFrom("offer_applicants")
-      .where("offer", "=", offerId as any)
-      .where("customer", "=", userId as any)
+      .where("offer", "=", linkId<"offers">(offerId))
+      .where("customer", "=", linkId<"users">(userId))
       .select([
         "id",
         "note",
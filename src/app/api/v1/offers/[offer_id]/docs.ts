@@ -1,3 +1,4 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
 import { swaggerSecurity } from "@/lib/swagger/security";
 
 export const detailOfferPaths = {
@@ -64,6 +65,10 @@ export const detailOfferPaths = {
                           name: {
                             type: "string",
                           },
+                          avatar_url: {
+                            type: "string",
+                          },
+                          vehicle: { $ref: swaggerComponentRefs.Vehicle },
                         },
                       },
                       created_at: {
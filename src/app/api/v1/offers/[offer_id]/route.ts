@@ -2,6 +2,8 @@ import { NextRequest } from "next/server";
 import { database } from "@/lib/database";
 import { APIResponse } from "@/lib/models/api-response";
 import { verifyBearerToken } from "@/lib/bearer-token";
+import { toVehicleSummary } from "@/lib/driver-profile";
+import { notBlockedWith } from "@/lib/user-block";
 import { sql } from "kysely";
 
 export async function GET(
@@ -16,6 +18,7 @@ export async function GET(
     const offer = await database
       .selectFrom("offers as o")
       .innerJoin("users as u", "u.id", "o.freelancer")
+      .leftJoin("driver_profiles as dp", "dp.user", "o.freelancer")
       .select([
         "o.id",
         "o.title",
@@ -29,6 +32,11 @@ export async function GET(
         "o.max_participants",
         "u.id as freelancer_id",
         "u.name as freelancer_name",
+        "u.avatar_url as freelancer_avatar_url",
+        "dp.vehicle_type",
+        "dp.plate_number",
+        "dp.vehicle_color",
+        "dp.vehicle_photo_url",
         sql<string>`o."xata.createdAt"`.as("created_at"),
         sql<string>`o."xata.updatedAt"`.as("updated_at"),
       ])
@@ -56,6 +64,8 @@ export async function GET(
       .selectFrom("offer_applicants as oa")
       .innerJoin("users as u", "u.id", "oa.customer")
       .where("oa.offer", "=", params.offer_id as any)
+      // sembunyikan applicant dari customer yang saling memblokir
+      .where(notBlockedWith("oa.customer", authorization.userId))
       .select([
         "oa.id",
         "oa.pickup_location",
@@ -65,6 +75,7 @@ export async function GET(
         "oa.final_price",
         "u.id as customer_id",
         "u.name as customer_name",
+        "u.avatar_url as customer_avatar_url",
       ])
       .execute();
 
@@ -76,7 +87,16 @@ export async function GET(
       (authorization.role === "customer" &&
         applicants.some((a) => a.customer_id === authorization.userId));
 
-    const { freelancer_id, freelancer_name, ...offerData } = offer;
+    const {
+      freelancer_id,
+      freelancer_name,
+      freelancer_avatar_url,
+      vehicle_type,
+      plate_number,
+      vehicle_color,
+      vehicle_photo_url,
+      ...offerData
+    } = offer;
 
     return APIResponse.respondWithSuccess({
       offer: {
@@ -84,6 +104,13 @@ export async function GET(
         freelancer: {
           id: freelancer_id,
           name: freelancer_name,
+          avatar_url: freelancer_avatar_url,
+          vehicle: toVehicleSummary({
+            vehicle_type,
+            plate_number,
+            vehicle_color,
+            vehicle_photo_url,
+          }),
         },
         applicants_count: applicantsCount?.count || 0,
         has_applied: !!hasApplied,
@@ -106,6 +106,17 @@ export const offers2Paths = {
                             name: {
                               type: "string",
                             },
+                            avatar_url: {
+                              type: "string",
+                            },
+                            rating: {
+                              type: "number",
+                              description:
+                                "rata-rata rating driver, kosong jika belum pernah diulas",
+                            },
+                            completed_trips: {
+                              type: "integer",
+                            },
                           },
                         },
                         created_at: {
@@ -243,7 +254,8 @@ export const offers2Paths = {
           description: "Unauthorized",
         },
         403: {
-          description: "Forbidden",
+          description:
+            "Forbidden, role customer atau driver belum melengkapi profil kendaraan",
         },
         500: {
           description: "Internal Server Error",
@@ -1,7 +1,11 @@
 import { OfferStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
 import { verifyBearerToken } from "@/lib/bearer-token";
 import { database } from "@/lib/database";
+import { requireDriverProfile } from "@/lib/driver-profile";
 import { APIResponse } from "@/lib/models/api-response";
+import { notBlockedWith } from "@/lib/user-block";
+import { averageRating, completedTripCount } from "@/lib/user-rating";
 import { sql } from "kysely";
 import { NextRequest } from "next/server";
 import { z } from "zod";
@@ -24,6 +28,9 @@ interface Offer {
 interface Freelancer {
   id: string;
   name: string;
+  avatar_url: string;
+  rating?: number;
+  completed_trips: number;
 }
 interface GETResponse {
   offers: Offer[];
@@ -48,6 +55,8 @@ export async function GET(request: NextRequest) {
       .selectFrom("offers")
       .select(sql<number>`count(*)`.as("count"))
       .where("offer_status", "=", OfferStatus.AVAILABLE)
+      .where("available_until", ">", sql<Date>`NOW()`)
+      .where(notBlockedWith("freelancer", authorization.userId))
       .executeTakeFirst();
 
     // Ambil data dengan pagination
@@ -67,10 +76,20 @@ export async function GET(request: NextRequest) {
         "so.max_participants",
         "u.id as freelancer_id",
         "u.name as freelancer_name",
+        "u.avatar_url as freelancer_avatar_url",
+        averageRating("u.id", Role.Driver).as("freelancer_rating"),
+        completedTripCount("u.id").as("freelancer_completed_trips"),
         sql<string>`so."xata.createdAt"`.as("created_at"),
         sql<string>`so."xata.updatedAt"`.as("updated_at"),
       ])
-      .where("so.offer_status", "=", OfferStatus.AVAILABLE) 
+      .where("so.offer_status", "=", OfferStatus.AVAILABLE)
+      /**
+       * cron sweep hanya berjalan setiap jam, offer yang sudah melewati
+       * available_until tetap disembunyikan sebelum ditutup oleh cron
+       */
+      .where("so.available_until", ">", sql<Date>`NOW()`)
+      // sembunyikan offer dari driver yang saling memblokir
+      .where(notBlockedWith("so.freelancer", authorization.userId))
       .limit(limit)
       .offset((page - 1) * limit)
       .orderBy("created_at", "desc")
@@ -82,13 +101,25 @@ export async function GET(request: NextRequest) {
     // );
 
     return APIResponse.respondWithSuccess<GETResponse>({
-      offers: offers.map(({ freelancer_id, freelancer_name, ...rest }) => ({
-        ...rest,
-        freelancer: {
-          id: freelancer_id,
-          name: freelancer_name,
-        },
-      })),
+      offers: offers.map(
+        ({
+          freelancer_id,
+          freelancer_name,
+          freelancer_avatar_url,
+          freelancer_rating,
+          freelancer_completed_trips,
+          ...rest
+        }) => ({
+          ...rest,
+          freelancer: {
+            id: freelancer_id,
+            name: freelancer_name,
+            avatar_url: freelancer_avatar_url,
+            rating: freelancer_rating ?? undefined,
+            completed_trips: Number(freelancer_completed_trips),
+          },
+        })
+      ),
       page_info: {
         count: offers.length,
         page: page,
@@ -153,6 +184,9 @@ export async function POST(request: NextRequest) {
         "Anda tidak memiliki akses untuk membuat offer!"
       );
 
+    const profileError = await requireDriverProfile(authorization.userId);
+    if (profileError) return profileError;
+
     const result = await database
       .insertInto("offers")
       .values({
@@ -0,0 +1,68 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const reportsPaths = {
+  "/api/v1/reports": {
+    post: {
+      operationId: "reportUser",
+      tags: ["Report"],
+      security: swaggerSecurity,
+      summary: "melaporkan user ke admin",
+      description:
+        "laporan dapat menyertakan referensi job, offer atau pesan chat yang melibatkan user yang dilaporkan",
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["user_id", "reason"],
+              properties: {
+                user_id: { type: "string" },
+                reason: { type: "string" },
+                job_id: { type: "string" },
+                offer_id: { type: "string" },
+                chat_message_id: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["id"],
+                properties: {
+                  id: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        403: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.ForbiddenError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
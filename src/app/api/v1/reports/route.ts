@@ -0,0 +1,160 @@
+import { UserReportStatus } from "@/constants/constants";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database, linkId } from "@/lib/database";
+import { APIResponse } from "@/lib/models/api-response";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface POSTBody {
+  user_id: string;
+  reason: string;
+  // referensi opsional ke data yang dilaporkan
+  job_id?: string;
+  offer_id?: string;
+  chat_message_id?: string;
+}
+interface POSTResponse {
+  id: string;
+}
+export const POST = async (request: NextRequest) => {
+  try {
+    // validasi request dari user
+    const {
+      user_id: reportedId,
+      reason,
+      job_id: jobId,
+      offer_id: offerId,
+      chat_message_id: chatMessageId,
+    }: POSTBody = await request.json();
+    const validate = z
+      .object({
+        reportedId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+        reason: z
+          .string({ required_error: "Alasan tidak boleh kosong!" })
+          .trim()
+          .min(1, "Alasan tidak boleh kosong!")
+          .max(1000, "Alasan maksimal terdiri dari 1000 karakter!"),
+        jobId: z.string().min(1).optional(),
+        offerId: z.string().min(1).optional(),
+        chatMessageId: z.string().min(1).optional(),
+      })
+      .safeParse({ reportedId, reason, jobId, offerId, chatMessageId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+    const { userId } = authorization;
+
+    if (reportedId === userId)
+      return APIResponse.respondWithForbidden(
+        "Anda tidak dapat melaporkan akun Anda sendiri!"
+      );
+
+    const userQuery = database
+      .selectFrom("users as u")
+      .select(["u.id"])
+      .where("u.id", "=", reportedId);
+    const userResult = await userQuery.executeTakeFirst();
+
+    if (!userResult)
+      return APIResponse.respondWithNotFound(
+        "User dengan ID tersebut tidak ditemukan!"
+      );
+
+    // job yang dilaporkan harus melibatkan user yang dilaporkan
+    if (jobId) {
+      const jobQuery = database
+        .selectFrom("jobs as j")
+        .select(["j.id"])
+        .where("j.id", "=", jobId)
+        .where((eb) =>
+          eb.or([
+            eb("j.customer", "=", linkId<"users">(reportedId)),
+            eb("j.freelancer", "=", linkId<"users">(reportedId)),
+          ])
+        );
+      const jobResult = await jobQuery.executeTakeFirst();
+
+      if (!jobResult)
+        return APIResponse.respondWithNotFound(
+          "Pekerjaan dengan ID tersebut tidak ditemukan!"
+        );
+    }
+
+    // offer yang dilaporkan harus dibuat oleh atau dilamar user yang dilaporkan
+    if (offerId) {
+      const offerQuery = database
+        .selectFrom("offers as o")
+        .select(["o.id"])
+        .where("o.id", "=", offerId)
+        .where((eb) =>
+          eb.or([
+            eb("o.freelancer", "=", linkId<"users">(reportedId)),
+            eb.exists(
+              eb
+                .selectFrom("offer_applicants as oa")
+                .select("oa.id")
+                .whereRef("oa.offer", "=", "o.id")
+                .where("oa.customer", "=", linkId<"users">(reportedId))
+            ),
+          ])
+        );
+      const offerResult = await offerQuery.executeTakeFirst();
+
+      if (!offerResult)
+        return APIResponse.respondWithNotFound(
+          "Offer dengan ID tersebut tidak ditemukan!"
+        );
+    }
+
+    /**
+     * pesan yang dilaporkan harus dikirim oleh user yang dilaporkan
+     * pada room chat yang diikuti oleh pelapor
+     */
+    if (chatMessageId) {
+      const messageQuery = database
+        .selectFrom("chat_messages as cm")
+        .innerJoin("chat_room_members as crm", "crm.room", "cm.room")
+        .select(["cm.id"])
+        .where("cm.id", "=", chatMessageId)
+        .where("cm.user", "=", linkId<"users">(reportedId))
+        .where("crm.user", "=", linkId<"users">(userId));
+      const messageResult = await messageQuery.executeTakeFirst();
+
+      if (!messageResult)
+        return APIResponse.respondWithNotFound(
+          "Pesan dengan ID tersebut tidak ditemukan!"
+        );
+    }
+
+    const query = database
+      .insertInto("user_reports")
+      .values({
+        reporter: userId,
+        reported_user: reportedId,
+        reason: validate.data.reason,
+        job: jobId ?? null,
+        offer: offerId ?? null,
+        chat_message: chatMessageId ?? null,
+        status: UserReportStatus.OPEN,
+      } as any)
+      .returning("id");
+    const result = await query.executeTakeFirstOrThrow();
+
+    return APIResponse.respondWithSuccess<POSTResponse>({
+      id: result.id,
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
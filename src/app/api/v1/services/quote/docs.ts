@@ -0,0 +1,79 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+export const serviceQuotePaths = {
+  "/api/v1/services/quote": {
+    post: {
+      operationId: "getServiceQuote",
+      tags: ["Services"],
+      summary: "estimasi harga layanan berdasarkan jarak",
+      description:
+        "endpoint ini digunakan untuk mendapatkan harga rekomendasi dan rentang harga yang diperbolehkan berdasarkan jarak penjemputan ke tujuan",
+      security: swaggerSecurity,
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: [
+                "service",
+                "pickup_latitude",
+                "pickup_longitude",
+                "destination_latitude",
+                "destination_longitude",
+              ],
+              properties: {
+                service: {
+                  type: "string",
+                  enum: ["antar-jemput", "jasa-titip"],
+                  "x-enum-varnames": ["AntarJemput", "JasaTitip"],
+                },
+                pickup_latitude: { type: "number", format: "float" },
+                pickup_longitude: { type: "number", format: "float" },
+                destination_latitude: { type: "number", format: "float" },
+                destination_longitude: { type: "number", format: "float" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: [
+                  "distance_km",
+                  "recommended_price",
+                  "min_price",
+                  "max_price",
+                ],
+                properties: {
+                  distance_km: { type: "number", format: "float" },
+                  recommended_price: { type: "integer" },
+                  min_price: { type: "integer" },
+                  max_price: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.BadRequestError },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
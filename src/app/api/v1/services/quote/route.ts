@@ -0,0 +1,89 @@
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { APIResponse } from "@/lib/models/api-response";
+import { getPriceQuote, PriceQuote } from "@/lib/price-quote";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface POSTBody {
+  service: string;
+  pickup_latitude: number;
+  pickup_longitude: number;
+  destination_latitude: number;
+  destination_longitude: number;
+}
+interface POSTResponse extends PriceQuote {}
+export const POST = async (request: NextRequest) => {
+  try {
+    // validasi request dari user
+    const {
+      service,
+      pickup_latitude: pickupLatitude,
+      pickup_longitude: pickupLongitude,
+      destination_latitude: destinationLatitude,
+      destination_longitude: destinationLongitude,
+    }: POSTBody = await request.json();
+
+    const validate = z
+      .object({
+        service: z.enum(["antar-jemput", "jasa-titip"], {
+          required_error: "Jenis layanan tidak boleh kosong!",
+        }),
+        pickupLatitude: z
+          .number({
+            required_error: "Latitude penjemputan tidak boleh kosong!",
+          })
+          .min(-90, "Latitude penjemputan tidak valid!")
+          .max(90, "Latitude penjemputan tidak valid!"),
+        pickupLongitude: z
+          .number({
+            required_error: "Longitude penjemputan tidak boleh kosong!",
+          })
+          .min(-180, "Longitude penjemputan tidak valid!")
+          .max(180, "Longitude penjemputan tidak valid!"),
+        destinationLatitude: z
+          .number({ required_error: "Latitude tujuan tidak boleh kosong!" })
+          .min(-90, "Latitude tujuan tidak valid!")
+          .max(90, "Latitude tujuan tidak valid!"),
+        destinationLongitude: z
+          .number({ required_error: "Longitude tujuan tidak boleh kosong!" })
+          .min(-180, "Longitude tujuan tidak valid!")
+          .max(180, "Longitude tujuan tidak valid!"),
+      })
+      .safeParse({
+        service,
+        pickupLatitude,
+        pickupLongitude,
+        destinationLatitude,
+        destinationLongitude,
+      });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+
+    // menghitung estimasi harga
+    const quote = await getPriceQuote({
+      service,
+      pickupLatitude,
+      pickupLongitude,
+      destinationLatitude,
+      destinationLongitude,
+    });
+    if (!quote)
+      return APIResponse.respondWithNotFound(
+        "Tarif untuk layanan dan jarak tersebut belum tersedia!"
+      );
+
+    return APIResponse.respondWithSuccess<POSTResponse>(quote);
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
@@ -0,0 +1,88 @@
+import { swaggerComponentRefs } from "@/lib/swagger/component";
+import { swaggerSecurity } from "@/lib/swagger/security";
+
+const ratingSummary = {
+  type: "object",
+  required: ["count"],
+  properties: {
+    average: {
+      type: "number",
+      description: "rata-rata rating, kosong jika belum pernah diulas",
+    },
+    count: { type: "integer" },
+  },
+};
+
+export const usersIdPaths = {
+  "/api/v1/users/{user_id}": {
+    get: {
+      operationId: "getUserProfile",
+      tags: ["User"],
+      security: swaggerSecurity,
+      summary: "mendapatkan profil publik user",
+      description:
+        "profil yang dapat dilihat oleh user lain, tidak menyertakan email dan nim",
+      parameters: [
+        {
+          in: "path",
+          name: "user_id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        200: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: [
+                  "id",
+                  "name",
+                  "avatar_url",
+                  "gender",
+                  "roles",
+                  "joined_at",
+                  "rating",
+                  "completed_orders",
+                ],
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string" },
+                  avatar_url: { type: "string" },
+                  gender: { type: "string" },
+                  roles: { type: "array", items: { type: "string" } },
+                  joined_at: { type: "string", format: "datetime" },
+                  rating: {
+                    type: "object",
+                    required: ["as_customer", "as_driver"],
+                    properties: {
+                      as_customer: ratingSummary,
+                      as_driver: ratingSummary,
+                    },
+                  },
+                  completed_orders: {
+                    type: "object",
+                    required: ["as_customer", "as_driver"],
+                    properties: {
+                      as_customer: { type: "integer" },
+                      as_driver: { type: "integer" },
+                    },
+                  },
+                  vehicle: { $ref: swaggerComponentRefs.Vehicle },
+                },
+              },
+            },
+          },
+        },
+        404: {
+          content: {
+            "application/json": {
+              schema: { $ref: swaggerComponentRefs.NotFoundError },
+            },
+          },
+        },
+      },
+    },
+  },
+};
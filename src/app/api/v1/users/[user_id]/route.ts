@@ -0,0 +1,132 @@
+import { Role } from "@/constants/role";
+import { verifyBearerToken } from "@/lib/bearer-token";
+import { database } from "@/lib/database";
+import { toVehicleSummary, VehicleSummary } from "@/lib/driver-profile";
+import { APIResponse } from "@/lib/models/api-response";
+import {
+  averageRating,
+  completedOrderCount,
+  completedTripCount,
+  ratingCount,
+} from "@/lib/user-rating";
+import { convertDatetimeToISO } from "@/lib/utils";
+import { sql } from "kysely";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+interface Params {
+  params: {
+    user_id: string;
+  };
+}
+
+interface RatingSummary {
+  average?: number;
+  count: number;
+}
+
+/**
+ * profil publik user yang dapat dilihat oleh user lain, tidak
+ * menyertakan data pribadi seperti email dan nim
+ */
+interface GETResponse {
+  id: string;
+  name: string;
+  gender: string;
+  avatar_url: string;
+  roles: string[];
+  joined_at: string;
+  rating: {
+    as_customer: RatingSummary;
+    as_driver: RatingSummary;
+  };
+  completed_orders: {
+    as_customer: number;
+    as_driver: number;
+  };
+  vehicle?: VehicleSummary;
+}
+export const GET = async (request: NextRequest, { params }: Params) => {
+  try {
+    // validasi request dari user
+    const { user_id: userId } = params;
+    const validate = z
+      .object({
+        userId: z
+          .string({ required_error: "ID user tidak boleh kosong!" })
+          .min(1, "ID user tidak boleh kosong!"),
+      })
+      .safeParse({ userId });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+
+    // verifikasi bearer token
+    const authorization = await verifyBearerToken(request);
+    if (!authorization) return APIResponse.respondWithUnauthorized();
+
+    const query = database
+      .selectFrom("users as u")
+      .leftJoin("driver_profiles as dp", "dp.user", "u.id")
+      .select((eb) => [
+        "u.id",
+        "u.name",
+        "u.gender",
+        "u.avatar_url",
+        sql<string>`u."xata.createdAt"`.as("joined_at"),
+        eb
+          .selectFrom("user_roles as ur")
+          .select(sql<string[]>`array_agg(ur.role)`.as("roles"))
+          .whereRef("ur.user", "=", "u.id")
+          .as("roles"),
+        averageRating("u.id", Role.Customer).as("customer_rating"),
+        ratingCount("u.id", Role.Customer).as("customer_rating_count"),
+        averageRating("u.id", Role.Driver).as("driver_rating"),
+        ratingCount("u.id", Role.Driver).as("driver_rating_count"),
+        completedOrderCount("u.id").as("customer_completed_orders"),
+        completedTripCount("u.id").as("driver_completed_orders"),
+        "dp.vehicle_type",
+        "dp.plate_number",
+        "dp.vehicle_color",
+        "dp.vehicle_photo_url",
+      ])
+      .where("u.id", "=", userId);
+    const result = await query.executeTakeFirst();
+
+    if (!result)
+      return APIResponse.respondWithNotFound(
+        "User dengan ID tersebut tidak ditemukan!"
+      );
+
+    return APIResponse.respondWithSuccess<GETResponse>({
+      id: result.id,
+      name: result.name,
+      gender: result.gender,
+      avatar_url: result.avatar_url,
+      roles: result.roles ?? [],
+      joined_at: convertDatetimeToISO(result.joined_at),
+      rating: {
+        as_customer: {
+          average: result.customer_rating ?? undefined,
+          count: Number(result.customer_rating_count),
+        },
+        as_driver: {
+          average: result.driver_rating ?? undefined,
+          count: Number(result.driver_rating_count),
+        },
+      },
+      completed_orders: {
+        as_customer: Number(result.customer_completed_orders),
+        as_driver: Number(result.driver_completed_orders),
+      },
+      vehicle: toVehicleSummary(result),
+    });
+  } catch (e) {
+    console.log(e);
+    return APIResponse.respondWithServerError();
+  }
+};
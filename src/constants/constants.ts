@@ -9,4 +9,72 @@ export enum ApplicantStatus {
 export enum OfferStatus {
   AVAILABLE = "available",
   CLOSED = "closed",
+  CANCELLED = "cancelled",
+}
+
+export enum JobStatus {
+  OPEN = "open",
+  ASSIGNED = "assigned",
+  PICKED_UP = "picked_up",
+  DELIVERED = "delivered",
+  DONE = "done",
+  CANCELLED = "cancelled",
+  EXPIRED = "expired",
+}
+
+export enum JobApplicationStatus {
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+  REJECTED = "rejected",
+  WITHDRAWN = "withdrawn",
+}
+
+export enum JobCancellationReason {
+  CHANGE_OF_PLANS = "change_of_plans",
+  WRONG_DETAILS = "wrong_details",
+  DRIVER_UNRESPONSIVE = "driver_unresponsive",
+  DRIVER_TOO_LONG = "driver_too_long",
+  OTHER = "other",
+}
+
+export enum AdminAction {
+  SUSPEND_USER = "suspend_user",
+  UNSUSPEND_USER = "unsuspend_user",
+  CANCEL_JOB = "cancel_job",
+  CANCEL_OFFER = "cancel_offer",
+  VIEW_CHAT_ROOM = "view_chat_room",
+  APPROVE_DRIVER_VERIFICATION = "approve_driver_verification",
+  REJECT_DRIVER_VERIFICATION = "reject_driver_verification",
+  RESOLVE_REPORT = "resolve_report",
+  DISMISS_REPORT = "dismiss_report",
+}
+
+export enum AccountTokenType {
+  EMAIL_VERIFICATION = "email_verification",
+  PASSWORD_RESET = "password_reset",
+}
+
+export enum DriverVerificationStatus {
+  PENDING = "pending",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+}
+
+export enum VehicleType {
+  MOTORCYCLE = "motorcycle",
+  CAR = "car",
+}
+
+export enum UserReportStatus {
+  OPEN = "open",
+  RESOLVED = "resolved",
+  DISMISSED = "dismissed",
+}
+
+export enum ChatMessageType {
+  TEXT = "text",
+  IMAGE = "image",
+  LOCATION = "location",
+  // pesan dari sistem, dapat menyertakan job/offer untuk ditampilkan sebagai kartu order
+  SYSTEM = "system",
 }
@@ -0,0 +1,69 @@
+import { AccountTokenType } from "@/constants/constants";
+import { createHash, randomBytes } from "crypto";
+import { sql } from "kysely";
+import { database, linkId } from "./database";
+
+// masa berlaku token berdasarkan jenisnya
+const accountTokenLifetimes: Record<AccountTokenType, number> = {
+  [AccountTokenType.EMAIL_VERIFICATION]: 24 * 60 * 60 * 1000,
+  [AccountTokenType.PASSWORD_RESET]: 60 * 60 * 1000,
+};
+
+/**
+ * token hanya disimpan dalam bentuk hash sehingga token yang bocor dari
+ * database tidak dapat digunakan
+ */
+const hashAccountToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * membuat token verifikasi email atau reset kata sandi, token lama
+ * dengan jenis yang sama dan belum digunakan otomatis tidak berlaku
+ */
+export const createAccountToken = async (
+  userId: string,
+  type: AccountTokenType
+): Promise<string> => {
+  const token = randomBytes(32).toString("hex");
+
+  await database
+    .updateTable("account_tokens")
+    .set({ used_at: sql<Date>`NOW()` })
+    .where("user", "=", linkId<"users">(userId))
+    .where("type", "=", type)
+    .where("used_at", "is", null)
+    .execute();
+
+  await database
+    .insertInto("account_tokens")
+    .values({
+      user: userId,
+      type,
+      token_hash: hashAccountToken(token),
+      expires_at: new Date(Date.now() + accountTokenLifetimes[type]),
+    } as any)
+    .execute();
+
+  return token;
+};
+
+/**
+ * menggunakan token (hanya dapat digunakan 1 kali), mengembalikan id user
+ * pemilik token atau undefined jika token tidak valid/kedaluwarsa
+ */
+export const consumeAccountToken = async (
+  token: string,
+  type: AccountTokenType
+): Promise<string | undefined> => {
+  const query = database
+    .updateTable("account_tokens")
+    .set({ used_at: sql<Date>`NOW()` })
+    .where("token_hash", "=", hashAccountToken(token))
+    .where("type", "=", type)
+    .where("used_at", "is", null)
+    .where("expires_at", ">", sql<Date>`NOW()`)
+    .returning(sql<string | null>`"user"`.as("user_id"));
+  const result = await query.executeTakeFirst();
+
+  return result?.user_id ?? undefined;
+};
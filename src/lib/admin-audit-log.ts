@@ -0,0 +1,34 @@
+import { AdminAction } from "@/constants/constants";
+import { database } from "./database";
+
+interface AdminAuditLog {
+  adminId: string;
+  action: AdminAction;
+  // nama tabel dari data yang diubah/dilihat, misal: users, jobs
+  targetType: string;
+  targetId: string;
+  note?: string;
+}
+
+/**
+ * mencatat setiap aksi yang dilakukan oleh admin ke admin_audit_logs
+ */
+export const recordAdminAuditLog = async ({
+  adminId,
+  action,
+  targetType,
+  targetId,
+  note,
+}: AdminAuditLog) => {
+  const query = database
+    .insertInto("admin_audit_logs")
+    .values({
+      admin: adminId,
+      action,
+      target_type: targetType,
+      target_id: targetId,
+      note: note ?? "",
+    } as any)
+    .returning("id");
+  return await query.executeTakeFirstOrThrow();
+};
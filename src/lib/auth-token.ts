@@ -1,34 +1,67 @@
 import { jwtVerify, SignJWT } from "jose";
 import { cookies } from "next/headers";
+import { v4 as uuidv4 } from "uuid";
+import { isAuthTokenRevoked } from "./token-revocation";
 
+/**
+ * isi token akses yang digunakan oleh aplikasi android (bearer token)
+ * maupun web (cookie), token dapat diverifikasi tanpa query ke database
+ */
 export type AuthTokenType = {
   id: string;
-  name: string;
-  email: string;
   role: string;
+  session_id: string;
+};
+
+export type AuthTokenPayload = AuthTokenType & {
+  jti: string;
+  exp: number;
 };
 
 const secret = new TextEncoder().encode(process.env.JWT_SECRET);
 const authTokenKey = "auth-token";
 
+// masa berlaku token akses (1 jam)
+export const authTokenLifetime = 60 * 60 * 1000;
+
 // hanya bisa dijalankan di server side
 export const generateAuthToken = async (
   props: AuthTokenType
-): Promise<string> => {
+): Promise<{ token: string; expiresAt: Date }> => {
+  const expiresAt = new Date(Date.now() + authTokenLifetime);
+
   // generate jwt
-  const jwt = await new SignJWT({
+  const token = await new SignJWT({
     ...props,
   })
     .setProtectedHeader({ alg: "HS256" })
+    .setJti(uuidv4())
     .setIssuedAt()
-    .setExpirationTime("1d")
+    .setExpirationTime(expiresAt)
     .sign(secret);
 
-  return jwt;
+  return { token, expiresAt };
+};
+
+// hanya bisa dijalankan di server side
+export const verifyAuthTokenValue = async (
+  token: string
+): Promise<AuthTokenPayload | undefined> => {
+  try {
+    const { payload } = await jwtVerify<AuthTokenPayload>(token, secret, {
+      algorithms: ["HS256"],
+    });
+    if (!payload.id || !payload.role || !payload.session_id || !payload.jti)
+      return undefined;
+
+    return payload;
+  } catch (e) {
+    return undefined;
+  }
 };
 
 // hanya bisa dijalankan di server side
-export const verifyAuthToken = async (): Promise<AuthTokenType> => {
+export const verifyAuthToken = async (): Promise<AuthTokenPayload> => {
   const cookieStore = cookies();
   const authToken = cookieStore.get(authTokenKey);
 
@@ -36,6 +69,12 @@ export const verifyAuthToken = async (): Promise<AuthTokenType> => {
   if (!authToken) throw new Error("Unauthorized");
 
   // verify auth token
-  const { payload } = await jwtVerify<AuthTokenType>(authToken.value, secret);
+  const payload = await verifyAuthTokenValue(authToken.value);
+  if (!payload) throw new Error("Unauthorized");
+
+  // token yang sudah dicabut dianggap tidak valid, sama seperti bearer token
+  if (await isAuthTokenRevoked(payload.jti, payload.session_id))
+    throw new Error("Unauthorized");
+
   return payload;
 };
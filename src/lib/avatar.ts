@@ -0,0 +1,67 @@
+import sharp from "sharp";
+import { assertReadableImage } from "./image";
+import { getFileStorage } from "./storage";
+
+/**
+ * ukuran maksimal file avatar yang diunggah (4 MB), vercel menolak body
+ * request di atas 4,5 MB sebelum route dijalankan sehingga batas ini
+ * menyisakan ruang untuk field multipart lainnya
+ */
+export const maxAvatarFileSize = 4 * 1024 * 1024;
+
+/**
+ * ukuran standar avatar (dalam pixel, persegi), medium digunakan
+ * sebagai avatar_url pada setiap objek user
+ */
+export const avatarSizes = {
+  small: 64,
+  medium: 256,
+  large: 512,
+};
+
+export type AvatarSize = keyof typeof avatarSizes;
+export type AvatarUrls = Record<AvatarSize, string>;
+
+/**
+ * mengubah ukuran avatar ke setiap ukuran standar dan menyimpannya ke
+ * storage, melempar InvalidImageError jika file tidak dapat dibaca
+ * sebagai gambar
+ */
+export const uploadAvatar = async (
+  userId: string,
+  content: Buffer
+): Promise<AvatarUrls> => {
+  await assertReadableImage(content);
+
+  const storage = getFileStorage();
+  const entries = await Promise.all(
+    (Object.keys(avatarSizes) as AvatarSize[]).map(async (size) => {
+      const resized = await sharp(content)
+        .rotate()
+        .resize(avatarSizes[size], avatarSizes[size], { fit: "cover" })
+        .webp()
+        .toBuffer();
+
+      const url = await storage.put(
+        `avatars/${userId}/${size}.webp`,
+        resized,
+        "image/webp"
+      );
+      return [size, url] as const;
+    })
+  );
+
+  return Object.fromEntries(entries) as AvatarUrls;
+};
+
+interface AvatarColumns {
+  avatar_small_url: string;
+  avatar_url: string;
+  avatar_large_url: string;
+}
+
+export const toAvatarUrls = (columns: AvatarColumns): AvatarUrls => ({
+  small: columns.avatar_small_url,
+  medium: columns.avatar_url,
+  large: columns.avatar_large_url,
+});
@@ -1,9 +1,14 @@
 "use server";
 
 import { NextRequest } from "next/server";
-import { database } from "./database";
+import { verifyAuthTokenValue } from "./auth-token";
+import { touchSession } from "./session";
+import { isAuthTokenRevoked } from "./token-revocation";
 
 interface VerifyResult {
+  sessionId: string;
+  jti: string;
+  expiresAt: Date;
   token: string;
   role: string;
   userId: string;
@@ -25,18 +30,26 @@ export const verifyBearerToken = async (
 
   if (!token) return undefined;
 
-  // mencari token di database session dan mengambil role
-  const query = database
-    .selectFrom("user_sessions as s")
-    .select(["s.token", "s.role", "s.user"])
-    .where("s.token", "=", token);
-  const result = await query.executeTakeFirst();
+  // verifikasi signature dan masa berlaku token
+  const payload = await verifyAuthTokenValue(token);
+  if (!payload) return undefined;
 
-  if (!result) return undefined;
+  /**
+   * token yang sudah dicabut (logout, ganti kata sandi, ganti role atau
+   * user ditangguhkan oleh admin) dianggap tidak valid
+   */
+  if (await isAuthTokenRevoked(payload.jti, payload.session_id))
+    return undefined;
+
+  // perbarui waktu terakhir session digunakan (lihat touchSession)
+  touchSession(payload.session_id);
 
   return {
-    token: result.token,
-    role: result.role,
-    userId: result.user as any,
+    sessionId: payload.session_id,
+    jti: payload.jti,
+    expiresAt: new Date(payload.exp * 1000),
+    token,
+    role: payload.role,
+    userId: payload.id,
   };
 };
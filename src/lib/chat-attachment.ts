@@ -0,0 +1,38 @@
+import sharp from "sharp";
+import { v4 } from "uuid";
+import { assertReadableImage } from "./image";
+import { getFileStorage } from "./storage";
+
+// ukuran maksimal gambar yang dikirim melalui chat (4 MB, lihat maxAvatarFileSize)
+export const maxChatImageFileSize = 4 * 1024 * 1024;
+
+// sisi terpanjang gambar chat setelah diperkecil (dalam pixel)
+const chatImageMaxDimension = 1280;
+
+/**
+ * memperkecil gambar chat lalu menyimpannya ke storage, metadata exif
+ * (termasuk lokasi gps) ikut dibuang ketika dikonversi ke webp. nama
+ * file dibuat oleh server agar gambar milik pesan lain tidak tertimpa.
+ * melempar InvalidImageError jika file tidak dapat dibaca sebagai gambar
+ */
+export const uploadChatImage = async (
+  roomId: string,
+  content: Buffer
+): Promise<string> => {
+  await assertReadableImage(content);
+
+  const resized = await sharp(content)
+    .rotate()
+    .resize(chatImageMaxDimension, chatImageMaxDimension, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .webp()
+    .toBuffer();
+
+  return await getFileStorage().put(
+    `chats/${roomId}/${v4()}.webp`,
+    resized,
+    "image/webp"
+  );
+};
@@ -0,0 +1,52 @@
+import { ChatMessageType } from "@/constants/constants";
+import { describe, expect, it, vi } from "vitest";
+import {
+  decodeChatMessageCursor,
+  encodeChatMessageCursor,
+  getChatMessagePreview,
+} from "./chat-room";
+
+vi.mock("./database", () => ({ database: {}, xata: {} }));
+
+describe("chat message cursor", () => {
+  it("mengembalikan posisi pesan yang sama setelah di-decode", () => {
+    const cursor = {
+      createdAt: "2024-05-01T10:00:00.123456Z",
+      id: "rec_message",
+    };
+    expect(decodeChatMessageCursor(encodeChatMessageCursor(cursor))).toEqual(
+      cursor
+    );
+  });
+
+  it("mengembalikan undefined untuk cursor yang tidak valid", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(decodeChatMessageCursor("bukan-cursor")).toBeUndefined();
+    expect(decodeChatMessageCursor(encode(["kemarin", "rec"]))).toBeUndefined();
+    expect(
+      decodeChatMessageCursor(encode(["2024-05-01T10:00:00Z", 1]))
+    ).toBeUndefined();
+  });
+});
+
+describe("getChatMessagePreview", () => {
+  it("menggunakan isi pesan untuk pesan teks", () => {
+    expect(
+      getChatMessagePreview({ type: ChatMessageType.TEXT, message: "halo" })
+    ).toBe("halo");
+  });
+
+  it("menggunakan label untuk pesan gambar dan lokasi", () => {
+    expect(
+      getChatMessagePreview({ type: ChatMessageType.IMAGE, message: "" })
+    ).toBe("Foto");
+    expect(
+      getChatMessagePreview({
+        type: ChatMessageType.LOCATION,
+        message: "depan gerbang",
+      })
+    ).toBe("Lokasi: depan gerbang");
+  });
+});
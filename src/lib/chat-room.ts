@@ -0,0 +1,183 @@
+import { ChatMessageType } from "@/constants/constants";
+import { sql } from "kysely";
+import { database, linkId } from "./database";
+
+// batas waktu pesan dapat diubah setelah dikirim (dalam menit)
+export const chatMessageEditWindowMinutes = 15;
+
+// teks pengganti (tombstone) untuk pesan yang sudah dihapus
+export const deletedChatMessageText = "pesan dihapus";
+
+/**
+ * teks ringkas pesan untuk chat_rooms.last_message, pesan gambar dan
+ * lokasi menggunakan label beserta keterangan (jika ada)
+ */
+export const getChatMessagePreview = ({
+  type,
+  message,
+}: {
+  type: string;
+  message: string;
+}): string => {
+  const labels: Partial<Record<string, string>> = {
+    [ChatMessageType.IMAGE]: "Foto",
+    [ChatMessageType.LOCATION]: "Lokasi",
+  };
+  const label = labels[type];
+  if (!label) return message;
+
+  return message ? `${label}: ${message}` : label;
+};
+
+// mendapatkan id seluruh anggota room chat, kosong jika room tidak ditemukan
+export const getChatRoomMemberIds = async (
+  roomId: string
+): Promise<string[]> => {
+  const query = database
+    .selectFrom("chat_room_members as crm")
+    .select(["crm.user"])
+    .where("crm.room", "=", linkId<"chat_rooms">(roomId));
+  const result = await query.execute();
+
+  return result.map((it) => it.user as unknown as string);
+};
+
+/**
+ * mencari room chat biasa (bukan room order job/offer) yang anggotanya
+ * sama persis dengan memberIds, room order didapatkan dari detail order
+ */
+export const findChatRoomIdByMembers = async (
+  memberIds: string[]
+): Promise<string | undefined> => {
+  const uniqueMemberIds = Array.from(new Set(memberIds)).map((it) =>
+    linkId<"users">(it)
+  );
+  const query = database
+    .selectFrom("chat_room_members as crm")
+    .innerJoin("chat_rooms as cr", "cr.id", "crm.room")
+    .select(["crm.room"])
+    .where("cr.job", "is", null)
+    .where("cr.offer_applicant", "is", null)
+    .groupBy("crm.room")
+    .having((eb) =>
+      eb.and([
+        eb(eb.fn.countAll(), "=", uniqueMemberIds.length),
+        eb(
+          eb.fn.countAll().filterWhere("crm.user", "in", uniqueMemberIds),
+          "=",
+          uniqueMemberIds.length
+        ),
+      ])
+    )
+    .limit(1);
+  const result = await query.executeTakeFirst();
+
+  return result?.room as unknown as string | undefined;
+};
+
+/**
+ * menambah unread message count milik seluruh anggota room selain
+ * pengirim pesan, penambahan dilakukan di database agar tidak
+ * bergantung pada nilai yang dikirim oleh client. senderId kosong
+ * untuk pesan system sehingga seluruh anggota ikut bertambah
+ */
+export const incrementUnreadMessageCounts = async (
+  roomId: string,
+  senderId?: string
+) => {
+  const query = database
+    .updateTable("chat_room_members")
+    .set((eb) => ({
+      unread_message_count: eb("unread_message_count", "+", 1),
+    }))
+    .where("room", "=", linkId<"chat_rooms">(roomId))
+    .$if(!!senderId, (qb) =>
+      qb.where("user", "!=", linkId<"users">(senderId!))
+    );
+  await query.execute();
+};
+
+/**
+ * posisi pesan pada riwayat chat untuk cursor pagination, created_at
+ * disimpan dalam format asli database agar presisi mikrodetik tidak
+ * hilang ketika dibandingkan kembali
+ */
+export interface ChatMessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+export const encodeChatMessageCursor = ({
+  createdAt,
+  id,
+}: ChatMessageCursor): string =>
+  Buffer.from(JSON.stringify([createdAt, id])).toString("base64url");
+
+// mengembalikan undefined jika cursor tidak valid
+export const decodeChatMessageCursor = (
+  cursor: string
+): ChatMessageCursor | undefined => {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    if (typeof createdAt !== "string" || typeof id !== "string")
+      return undefined;
+    if (isNaN(Date.parse(createdAt))) return undefined;
+
+    return { createdAt, id };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * menghitung ulang last_message room berdasarkan pesan terbaru yang
+ * belum dihapus, room hanya diperbarui jika nilainya berubah agar
+ * urutan room (updated_at) tidak berubah ketika pesan lama diubah
+ */
+export const refreshChatRoomLastMessage = async (roomId: string) => {
+  const roomQuery = database
+    .selectFrom("chat_rooms as cr")
+    .select([
+      "cr.last_message",
+      sql<string | null>`cr.last_sent_user`.as("last_sent_user_id"),
+    ])
+    .where("cr.id", "=", roomId);
+  const latestQuery = database
+    .selectFrom("chat_messages as cm")
+    .select([
+      "cm.type",
+      "cm.message",
+      sql<string>`cm.user`.as("user_id"),
+      sql<string>`cm."xata.createdAt"`.as("created_at"),
+    ])
+    .where("cm.room", "=", linkId<"chat_rooms">(roomId))
+    .where("cm.is_deleted", "=", false)
+    .orderBy("created_at", "desc")
+    .orderBy("cm.id", "desc")
+    .limit(1);
+
+  const [room, latest] = await Promise.all([
+    roomQuery.executeTakeFirst(),
+    latestQuery.executeTakeFirst(),
+  ]);
+  if (!room) return;
+
+  const lastMessage = latest ? getChatMessagePreview(latest) : "";
+  const lastSentUser = latest?.user_id ?? null;
+  if (
+    room.last_message === lastMessage &&
+    room.last_sent_user_id === lastSentUser
+  )
+    return;
+
+  const query = database
+    .updateTable("chat_rooms")
+    .set({
+      last_message: lastMessage,
+      last_sent_user: linkId<"users">(lastSentUser),
+    })
+    .where("id", "=", roomId);
+  await query.execute();
+};
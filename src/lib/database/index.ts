@@ -6,3 +6,12 @@ export const xata = getXataClient();
 export const database = new Kysely<Model<DatabaseSchema>>({
   dialect: new XataDialect({ xata }),
 });
+
+/**
+ * kolom link pada Model bertipe record tabel tujuan, sedangkan isi kolom
+ * di database adalah id record tersebut. linkId mengubah id menjadi tipe
+ * kolom link agar dapat dibandingkan pada query tanpa cast as any,
+ * null digunakan untuk mengosongkan kolom link
+ */
+export const linkId = <Table extends keyof DatabaseSchema>(id: string | null) =>
+  id as unknown as DatabaseSchema[Table];
@@ -14,6 +14,28 @@ const tables = [
       { name: "password", type: "text", notNull: true, defaultValue: "" },
       { name: "name", type: "text", notNull: true, defaultValue: "" },
       { name: "gender", type: "text", notNull: true, defaultValue: "" },
+      { name: "suspended_at", type: "datetime" },
+      {
+        name: "suspension_reason",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      { name: "email_verified_at", type: "datetime" },
+      { name: "nim", type: "text", notNull: true, defaultValue: "" },
+      { name: "avatar_url", type: "text", notNull: true, defaultValue: "" },
+      {
+        name: "avatar_small_url",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      {
+        name: "avatar_large_url",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
     ],
     revLinks: [
       { column: "freelancer", table: "offers" },
@@ -32,6 +54,20 @@ const tables = [
       { column: "freelancer", table: "deprecated_multi_job_applications" },
       { column: "customer", table: "deprecated_multi_job_followers" },
       { column: "user", table: "chat_messages" },
+      { column: "actor", table: "job_status_events" },
+      { column: "admin", table: "admin_audit_logs" },
+      { column: "user", table: "account_tokens" },
+      { column: "user", table: "driver_verifications" },
+      { column: "reviewed_by", table: "driver_verifications" },
+      { column: "user", table: "driver_profiles" },
+      { column: "user", table: "driver_plate_numbers" },
+      { column: "reviewer", table: "reviews" },
+      { column: "reviewee", table: "reviews" },
+      { column: "blocker", table: "user_blocks" },
+      { column: "blocked", table: "user_blocks" },
+      { column: "reporter", table: "user_reports" },
+      { column: "reported_user", table: "user_reports" },
+      { column: "reviewed_by", table: "user_reports" },
     ],
   },
   {
@@ -46,14 +82,30 @@ const tables = [
       },
       { name: "room", type: "link", link: { table: "chat_rooms" } },
       { name: "user", type: "link", link: { table: "users" } },
+      { name: "edited_at", type: "datetime" },
+      { name: "type", type: "text", notNull: true, defaultValue: "text" },
+      { name: "image_url", type: "text", notNull: true, defaultValue: "" },
+      { name: "latitude", type: "float" },
+      { name: "longitude", type: "float" },
+      { name: "job", type: "link", link: { table: "jobs" } },
+      { name: "offer", type: "link", link: { table: "offers" } },
+    ],
+    revLinks: [
+      { column: "last_read_message", table: "chat_room_members" },
+      { column: "chat_message", table: "user_reports" },
     ],
-    revLinks: [{ column: "last_read_message", table: "chat_room_members" }],
   },
   {
     name: "chat_rooms",
     columns: [
       { name: "last_message", type: "text", notNull: true, defaultValue: "" },
       { name: "last_sent_user", type: "link", link: { table: "users" } },
+      { name: "job", type: "link", link: { table: "jobs" } },
+      {
+        name: "offer_applicant",
+        type: "link",
+        link: { table: "offer_applicants" },
+      },
     ],
     revLinks: [
       { column: "room", table: "chat_messages" },
@@ -73,6 +125,11 @@ const tables = [
       { name: "token", type: "text", notNull: true, defaultValue: "" },
       { name: "user", type: "link", link: { table: "users" } },
       { name: "role", type: "text", notNull: true, defaultValue: "" },
+      { name: "refresh_token", type: "text", notNull: true, defaultValue: "" },
+      { name: "expires_at", type: "datetime" },
+      { name: "refresh_expires_at", type: "datetime" },
+      { name: "last_used_at", type: "datetime" },
+      { name: "device_name", type: "text", notNull: true, defaultValue: "" },
     ],
   },
   {
@@ -136,14 +193,35 @@ const tables = [
       { name: "customer", type: "link", link: { table: "users" } },
       { name: "freelancer", type: "link", link: { table: "users" } },
       { name: "price", type: "int", notNull: true, defaultValue: "0" },
-      { name: "status", type: "text", notNull: true, defaultValue: "" },
+      { name: "status", type: "text", notNull: true, defaultValue: "open" },
       { name: "pickup_latitude", type: "float" },
       { name: "pickup_longitude", type: "float" },
       { name: "destination_latitude", type: "float" },
       { name: "destination_longitude", type: "float" },
       { name: "expected_price", type: "int", notNull: true, defaultValue: "0" },
+      {
+        name: "cancellation_reason",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      {
+        name: "cancellation_note",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      { name: "needed_at", type: "datetime" },
+      { name: "expires_at", type: "datetime" },
+    ],
+    revLinks: [
+      { column: "job", table: "job_applications" },
+      { column: "job", table: "job_status_events" },
+      { column: "job", table: "reviews" },
+      { column: "job", table: "user_reports" },
+      { column: "job", table: "chat_messages" },
+      { column: "job", table: "chat_rooms" },
     ],
-    revLinks: [{ column: "job", table: "job_applications" }],
   },
   {
     name: "deprecated_multi_jobs",
@@ -183,6 +261,7 @@ const tables = [
       { name: "freelancer", type: "link", link: { table: "users" } },
       { name: "job", type: "link", link: { table: "jobs" } },
       { name: "bid_note", type: "text", notNull: true, defaultValue: "" },
+      { name: "status", type: "text", notNull: true, defaultValue: "pending" },
     ],
   },
   {
@@ -228,7 +307,11 @@ const tables = [
         defaultValue: "1",
       },
     ],
-    revLinks: [{ column: "offer", table: "offer_applicants" }],
+    revLinks: [
+      { column: "offer", table: "offer_applicants" },
+      { column: "offer", table: "user_reports" },
+      { column: "offer", table: "chat_messages" },
+    ],
   },
   {
     name: "offer_applicants",
@@ -280,6 +363,10 @@ const tables = [
       },
       { name: "final_price", type: "int", notNull: true, defaultValue: "0" },
     ],
+    revLinks: [
+      { column: "offer_applicant", table: "reviews" },
+      { column: "offer_applicant", table: "chat_rooms" },
+    ],
   },
   {
     name: "chat_room_members",
@@ -306,6 +393,143 @@ const tables = [
       { name: "title", type: "text", notNull: true, defaultValue: "" },
       { name: "min_price", type: "int", notNull: true, defaultValue: "0" },
       { name: "max_price", type: "int", notNull: true, defaultValue: "0" },
+      { name: "service", type: "text", notNull: true, defaultValue: "" },
+      {
+        name: "min_distance_km",
+        type: "float",
+        notNull: true,
+        defaultValue: "0.0",
+      },
+      { name: "max_distance_km", type: "float" },
+    ],
+  },
+  {
+    name: "job_status_events",
+    columns: [
+      { name: "job", type: "link", link: { table: "jobs" } },
+      { name: "actor", type: "link", link: { table: "users" } },
+      { name: "role", type: "text", notNull: true, defaultValue: "" },
+      {
+        name: "previous_status",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      { name: "new_status", type: "text", notNull: true, defaultValue: "" },
+    ],
+  },
+  {
+    name: "admin_audit_logs",
+    columns: [
+      { name: "admin", type: "link", link: { table: "users" } },
+      { name: "action", type: "text", notNull: true, defaultValue: "" },
+      { name: "target_type", type: "text", notNull: true, defaultValue: "" },
+      { name: "target_id", type: "text", notNull: true, defaultValue: "" },
+      { name: "note", type: "text", notNull: true, defaultValue: "" },
+    ],
+  },
+  {
+    name: "revoked_tokens",
+    columns: [
+      { name: "jti", type: "text", notNull: true, defaultValue: "" },
+      { name: "session", type: "text", notNull: true, defaultValue: "" },
+      { name: "expires_at", type: "datetime" },
+    ],
+  },
+  {
+    name: "account_tokens",
+    columns: [
+      { name: "user", type: "link", link: { table: "users" } },
+      { name: "type", type: "text", notNull: true, defaultValue: "" },
+      { name: "token_hash", type: "text", notNull: true, defaultValue: "" },
+      { name: "expires_at", type: "datetime" },
+      { name: "used_at", type: "datetime" },
+    ],
+  },
+  {
+    name: "driver_verifications",
+    columns: [
+      { name: "user", type: "link", link: { table: "users" } },
+      { name: "status", type: "text", notNull: true, defaultValue: "" },
+      {
+        name: "student_card_url",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      {
+        name: "driving_license_url",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+      { name: "note", type: "text", notNull: true, defaultValue: "" },
+      { name: "reviewed_by", type: "link", link: { table: "users" } },
+      { name: "reviewed_at", type: "datetime" },
+    ],
+  },
+  {
+    name: "driver_profiles",
+    columns: [
+      { name: "user", type: "link", link: { table: "users" } },
+      { name: "vehicle_type", type: "text", notNull: true, defaultValue: "" },
+      { name: "plate_number", type: "text", notNull: true, defaultValue: "" },
+      { name: "vehicle_color", type: "text", notNull: true, defaultValue: "" },
+      {
+        name: "vehicle_photo_url",
+        type: "text",
+        notNull: true,
+        defaultValue: "",
+      },
+    ],
+  },
+  {
+    name: "driver_plate_numbers",
+    columns: [{ name: "user", type: "link", link: { table: "users" } }],
+  },
+  {
+    name: "reviews",
+    columns: [
+      { name: "reviewer", type: "link", link: { table: "users" } },
+      { name: "reviewee", type: "link", link: { table: "users" } },
+      { name: "reviewee_role", type: "text", notNull: true, defaultValue: "" },
+      { name: "job", type: "link", link: { table: "jobs" } },
+      {
+        name: "offer_applicant",
+        type: "link",
+        link: { table: "offer_applicants" },
+      },
+      { name: "rating", type: "int", notNull: true, defaultValue: "0" },
+      { name: "comment", type: "text", notNull: true, defaultValue: "" },
+    ],
+  },
+  {
+    name: "user_blocks",
+    columns: [
+      { name: "blocker", type: "link", link: { table: "users" } },
+      { name: "blocked", type: "link", link: { table: "users" } },
+    ],
+  },
+  {
+    name: "user_reports",
+    columns: [
+      { name: "reporter", type: "link", link: { table: "users" } },
+      { name: "reported_user", type: "link", link: { table: "users" } },
+      { name: "reason", type: "text", notNull: true, defaultValue: "" },
+      { name: "job", type: "link", link: { table: "jobs" } },
+      { name: "offer", type: "link", link: { table: "offers" } },
+      { name: "chat_message", type: "link", link: { table: "chat_messages" } },
+      { name: "status", type: "text", notNull: true, defaultValue: "" },
+      { name: "admin_note", type: "text", notNull: true, defaultValue: "" },
+      { name: "reviewed_by", type: "link", link: { table: "users" } },
+      { name: "reviewed_at", type: "datetime" },
+    ],
+  },
+  {
+    name: "stored_files",
+    columns: [
+      { name: "key", type: "text", notNull: true, defaultValue: "" },
+      { name: "file", type: "file", file: { defaultPublicAccess: true } },
     ],
   },
 ] as const;
@@ -365,6 +589,39 @@ export type ChatRoomMembersRecord = ChatRoomMembers & XataRecord;
 export type ServicePrices = InferredTypes["service_prices"];
 export type ServicePricesRecord = ServicePrices & XataRecord;
 
+export type JobStatusEvents = InferredTypes["job_status_events"];
+export type JobStatusEventsRecord = JobStatusEvents & XataRecord;
+
+export type AdminAuditLogs = InferredTypes["admin_audit_logs"];
+export type AdminAuditLogsRecord = AdminAuditLogs & XataRecord;
+
+export type RevokedTokens = InferredTypes["revoked_tokens"];
+export type RevokedTokensRecord = RevokedTokens & XataRecord;
+
+export type AccountTokens = InferredTypes["account_tokens"];
+export type AccountTokensRecord = AccountTokens & XataRecord;
+
+export type DriverVerifications = InferredTypes["driver_verifications"];
+export type DriverVerificationsRecord = DriverVerifications & XataRecord;
+
+export type DriverProfiles = InferredTypes["driver_profiles"];
+export type DriverProfilesRecord = DriverProfiles & XataRecord;
+
+export type DriverPlateNumbers = InferredTypes["driver_plate_numbers"];
+export type DriverPlateNumbersRecord = DriverPlateNumbers & XataRecord;
+
+export type Reviews = InferredTypes["reviews"];
+export type ReviewsRecord = Reviews & XataRecord;
+
+export type UserBlocks = InferredTypes["user_blocks"];
+export type UserBlocksRecord = UserBlocks & XataRecord;
+
+export type UserReports = InferredTypes["user_reports"];
+export type UserReportsRecord = UserReports & XataRecord;
+
+export type StoredFiles = InferredTypes["stored_files"];
+export type StoredFilesRecord = StoredFiles & XataRecord;
+
 export type DatabaseSchema = {
   users: UsersRecord;
   chat_messages: ChatMessagesRecord;
@@ -382,6 +639,17 @@ export type DatabaseSchema = {
   offer_applicants: OfferApplicantsRecord;
   chat_room_members: ChatRoomMembersRecord;
   service_prices: ServicePricesRecord;
+  job_status_events: JobStatusEventsRecord;
+  admin_audit_logs: AdminAuditLogsRecord;
+  revoked_tokens: RevokedTokensRecord;
+  account_tokens: AccountTokensRecord;
+  driver_verifications: DriverVerificationsRecord;
+  driver_profiles: DriverProfilesRecord;
+  driver_plate_numbers: DriverPlateNumbersRecord;
+  reviews: ReviewsRecord;
+  user_blocks: UserBlocksRecord;
+  user_reports: UserReportsRecord;
+  stored_files: StoredFilesRecord;
 };
 
 const DatabaseClient = buildClient();
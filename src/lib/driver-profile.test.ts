@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  getPlateNumberClaimId,
+  normalizePlateNumber,
+  toVehicleSummary,
+} from "./driver-profile";
+
+vi.mock("./database", () => ({ database: {}, xata: {} }));
+
+describe("normalizePlateNumber", () => {
+  it("mengubah plat nomor ke format baku", () => {
+    expect(normalizePlateNumber("ad1234xy")).toBe("AD 1234 XY");
+    expect(normalizePlateNumber(" AD  1234 XY ")).toBe("AD 1234 XY");
+    expect(normalizePlateNumber("b 1 abc")).toBe("B 1 ABC");
+  });
+
+  it("mengizinkan plat nomor tanpa huruf belakang", () => {
+    expect(normalizePlateNumber("l 1234")).toBe("L 1234");
+  });
+
+  it("mengembalikan undefined untuk format yang tidak valid", () => {
+    expect(normalizePlateNumber("")).toBeUndefined();
+    expect(normalizePlateNumber("1234 XY")).toBeUndefined();
+    expect(normalizePlateNumber("ABC 1234 XY")).toBeUndefined();
+    expect(normalizePlateNumber("AD 12345 XY")).toBeUndefined();
+    expect(normalizePlateNumber("AD-1234-XY")).toBeUndefined();
+  });
+});
+
+describe("getPlateNumberClaimId", () => {
+  it("menghasilkan id yang sama untuk penulisan plat nomor yang berbeda", () => {
+    expect(getPlateNumberClaimId(normalizePlateNumber("ad1234xy")!)).toBe(
+      getPlateNumberClaimId(normalizePlateNumber("AD 1234 XY")!)
+    );
+    expect(getPlateNumberClaimId("AD 1234 XY")).toBe("plate_AD_1234_XY");
+  });
+});
+
+describe("toVehicleSummary", () => {
+  it("mengembalikan undefined jika driver belum melengkapi profil", () => {
+    expect(
+      toVehicleSummary({
+        vehicle_type: null,
+        plate_number: null,
+        vehicle_color: null,
+        vehicle_photo_url: null,
+      })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { database, linkId } from "./database";
+import { APIResponse } from "./models/api-response";
+
+/**
+ * ringkasan kendaraan driver yang ditampilkan ke customer pada
+ * detail job dan detail offer
+ */
+export interface VehicleSummary {
+  type: string;
+  plate_number: string;
+  color: string;
+  photo_url: string;
+}
+
+interface VehicleColumns {
+  vehicle_type: string | null;
+  plate_number: string | null;
+  vehicle_color: string | null;
+  vehicle_photo_url: string | null;
+}
+
+/**
+ * mengubah kolom driver_profiles hasil left join menjadi ringkasan
+ * kendaraan, undefined jika driver belum melengkapi profil
+ */
+export const toVehicleSummary = (
+  columns: VehicleColumns
+): VehicleSummary | undefined => {
+  if (!columns.vehicle_type) return undefined;
+
+  return {
+    type: columns.vehicle_type,
+    plate_number: columns.plate_number ?? "",
+    color: columns.vehicle_color ?? "",
+    photo_url: columns.vehicle_photo_url ?? "",
+  };
+};
+
+/**
+ * mengubah plat nomor ke format baku indonesia, misal "ad1234xy" dan
+ * "AD 1234 XY" sama-sama menjadi "AD 1234 XY", undefined jika format
+ * plat nomor tidak valid
+ */
+export const normalizePlateNumber = (plateNumber: string) => {
+  const match = plateNumber
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .match(/^([A-Z]{1,2})(\d{1,4})([A-Z]{0,3})$/);
+  if (!match) return undefined;
+
+  return match.slice(1).filter(Boolean).join(" ");
+};
+
+/**
+ * setiap driver hanya memiliki 1 profil kendaraan, id profil dibuat
+ * dari id driver sehingga profil pertama yang dikirim bersamaan tidak
+ * dapat tersimpan ganda
+ */
+export const getDriverProfileId = (userId: string) => `driver_${userId}`;
+
+/**
+ * id klaim plat nomor pada driver_plate_numbers, dibuat dari plat nomor
+ * yang sudah dibakukan (lihat normalizePlateNumber) sehingga 1 plat
+ * nomor hanya dapat diklaim oleh 1 driver
+ */
+export const getPlateNumberClaimId = (plateNumber: string) =>
+  `plate_${plateNumber.replace(/ /g, "_")}`;
+
+/**
+ * driver wajib melengkapi profil kendaraan sebelum dapat melamar job
+ * atau membuat offer, mengembalikan response error jika belum
+ */
+export const requireDriverProfile = async (
+  userId: string
+): Promise<Response | undefined> => {
+  const query = database
+    .selectFrom("driver_profiles as dp")
+    .select(["dp.id"])
+    .where("dp.user", "=", linkId<"users">(userId));
+  const result = await query.executeTakeFirst();
+
+  if (!result)
+    return APIResponse.respondWithForbidden(
+      "Lengkapi profil kendaraan Anda terlebih dahulu!"
+    );
+
+  return undefined;
+};
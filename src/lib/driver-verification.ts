@@ -0,0 +1,36 @@
+import { DriverVerificationStatus } from "@/constants/constants";
+import { sql } from "kysely";
+import { database, linkId } from "./database";
+
+export interface DriverVerification {
+  id: string;
+  status: DriverVerificationStatus;
+  note: string;
+}
+
+/**
+ * mendapatkan pengajuan verifikasi driver terbaru dari user,
+ * undefined jika user belum pernah mengajukan
+ */
+export const getLatestDriverVerification = async (
+  userId: string
+): Promise<DriverVerification | undefined> => {
+  const query = database
+    .selectFrom("driver_verifications as dv")
+    .select([
+      "dv.id",
+      "dv.status",
+      "dv.note",
+      sql<string>`dv."xata.createdAt"`.as("created_at"),
+    ])
+    .where("dv.user", "=", linkId<"users">(userId))
+    .orderBy("created_at", "desc");
+  const result = await query.executeTakeFirst();
+  if (!result) return undefined;
+
+  return {
+    id: result.id,
+    status: result.status as DriverVerificationStatus,
+    note: result.note,
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * domain email institusi yang diperbolehkan untuk registrasi jika env
+ * ALLOWED_EMAIL_DOMAINS tidak diisi, subdomain ikut diperbolehkan
+ * (misal: student.uns.ac.id)
+ */
+const defaultAllowedEmailDomains = ["uns.ac.id"];
+
+/**
+ * mendapatkan daftar domain email yang diperbolehkan dari env
+ * ALLOWED_EMAIL_DOMAINS (dipisahkan dengan koma)
+ */
+export const getAllowedEmailDomains = (): string[] =>
+  (process.env.ALLOWED_EMAIL_DOMAINS || defaultAllowedEmailDomains.join(","))
+    .split(",")
+    .map((it) => it.trim().toLowerCase())
+    .filter((it) => it.length > 0);
+
+export const isAllowedEmailDomain = (email: string): boolean => {
+  const domain = email.split("@").pop()?.trim().toLowerCase() ?? "";
+  return getAllowedEmailDomains().some(
+    (it) => domain === it || domain.endsWith(`.${it}`)
+  );
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { calculateDistanceKm } from "./geo";
+
+describe("calculateDistanceKm", () => {
+  it("mengembalikan 0 untuk titik yang sama", () => {
+    const point = { latitude: -7.2575, longitude: 112.7521 };
+    expect(calculateDistanceKm(point, point)).toBe(0);
+  });
+
+  it("menghitung jarak antar kota dengan rumus haversine", () => {
+    // surabaya ke malang sekitar 80 km (garis lurus)
+    const distanceKm = calculateDistanceKm(
+      { latitude: -7.2575, longitude: 112.7521 },
+      { latitude: -7.9666, longitude: 112.6326 }
+    );
+    expect(distanceKm).toBeGreaterThan(78);
+    expect(distanceKm).toBeLessThan(81);
+  });
+
+  it("menghasilkan jarak yang sama untuk kedua arah", () => {
+    const from = { latitude: -6.2, longitude: 106.8166 };
+    const to = { latitude: -6.9147, longitude: 107.6098 };
+    expect(calculateDistanceKm(from, to)).toBeCloseTo(
+      calculateDistanceKm(to, from)
+    );
+  });
+});
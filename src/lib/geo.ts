@@ -0,0 +1,45 @@
+import { RawBuilder, sql } from "kysely";
+
+// radius rata-rata bumi dalam kilometer
+const earthRadiusKm = 6371;
+
+/**
+ * menghitung jarak (km) antara kolom latitude/longitude dengan sebuah
+ * titik menggunakan rumus haversine, digunakan untuk filter dan sort
+ * langsung pada query database
+ */
+export const haversineDistanceKm = (
+  latitudeColumn: string,
+  longitudeColumn: string,
+  latitude: number,
+  longitude: number
+): RawBuilder<number> => {
+  const lat = sql.ref(latitudeColumn);
+  const lng = sql.ref(longitudeColumn);
+  return sql<number>`(${earthRadiusKm} * 2 * asin(sqrt(
+    power(sin(radians(${lat} - ${latitude}) / 2), 2) +
+    cos(radians(${latitude})) * cos(radians(${lat})) *
+    power(sin(radians(${lng} - ${longitude}) / 2), 2)
+  )))`;
+};
+
+interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * menghitung jarak (km) antara 2 titik menggunakan rumus haversine
+ */
+export const calculateDistanceKm = (from: Coordinate, to: Coordinate) => {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+  return earthRadiusKm * 2 * Math.asin(Math.sqrt(a));
+};
@@ -0,0 +1,23 @@
+import sharp from "sharp";
+
+// jenis gambar yang dapat diunggah user (avatar, lampiran chat)
+export const allowedImageMediaTypes = ["image/jpeg", "image/png", "image/webp"];
+
+export class InvalidImageError extends Error {
+  constructor() {
+    super("File bukan gambar yang valid!");
+    this.name = "InvalidImageError";
+  }
+}
+
+/**
+ * memastikan file dapat dibaca sebagai gambar, media type dari client
+ * tidak dapat dipercaya sehingga isi file tetap perlu diperiksa
+ */
+export const assertReadableImage = async (content: Buffer) => {
+  try {
+    await sharp(content).metadata();
+  } catch (e) {
+    throw new InvalidImageError();
+  }
+};
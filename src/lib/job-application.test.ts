@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import { requireDriverProfile } from "./driver-profile";
+import {
+  getJobApplicationId,
+  rejectIfCannotBid,
+  validateJobBid,
+} from "./job-application";
+import { rejectIfBlocked } from "./user-block";
+
+vi.mock("./database", () => ({ database: {}, xata: {} }));
+vi.mock("./driver-profile", () => ({ requireDriverProfile: vi.fn() }));
+vi.mock("./user-block", () => ({ rejectIfBlocked: vi.fn() }));
+
+const quote = {
+  distance_km: 4.2,
+  recommended_price: 12000,
+  min_price: 10000,
+  max_price: 15000,
+};
+
+describe("validateJobBid", () => {
+  it("menerima harga standar tanpa alasan penawaran", () => {
+    expect(validateJobBid(10000, undefined, 10000)).toBeUndefined();
+  });
+
+  it("menolak harga di bawah harga standar", async () => {
+    const response = validateJobBid(9000, "murah", 10000);
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toEqual({
+      message: "Harga penawaran tidak boleh kurang dari harga standar!",
+    });
+  });
+
+  it("menolak harga di atas batas estimasi harga", async () => {
+    const response = validateJobBid(16000, "jauh", 10000, quote);
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toEqual({
+      message: "Harga penawaran tidak boleh lebih dari 15000!",
+    });
+  });
+
+  it("mewajibkan alasan jika harga berbeda dari harga standar", () => {
+    expect(validateJobBid(12000, "", 10000, quote)?.status).toBe(400);
+    expect(validateJobBid(12000, "macet", 10000, quote)).toBeUndefined();
+  });
+});
+
+describe("getJobApplicationId", () => {
+  it("menghasilkan id yang sama untuk lamaran ke-n driver pada job", () => {
+    expect(getJobApplicationId("rec_job", "rec_driver", 0)).toBe(
+      getJobApplicationId("rec_job", "rec_driver", 0)
+    );
+    expect(getJobApplicationId("rec_job", "rec_driver", 1)).not.toBe(
+      getJobApplicationId("rec_job", "rec_driver", 0)
+    );
+  });
+});
+
+describe("rejectIfCannotBid", () => {
+  // job tanpa koordinat sehingga tidak memerlukan estimasi harga
+  const job = {
+    status: "open",
+    version: 1,
+    customer_id: "rec_customer",
+    expected_price: 10000,
+    service: "ride",
+    pickup_latitude: undefined,
+    pickup_longitude: undefined,
+    destination_latitude: undefined,
+    destination_longitude: undefined,
+  };
+
+  it("menolak driver yang saling memblokir dengan customer", async () => {
+    const blockError = new Response(null, { status: 403 });
+    vi.mocked(requireDriverProfile).mockResolvedValue(undefined);
+    vi.mocked(rejectIfBlocked).mockResolvedValue(blockError);
+
+    expect(await rejectIfCannotBid("rec_driver", job, 10000, undefined)).toBe(
+      blockError
+    );
+    expect(rejectIfBlocked).toHaveBeenCalledWith("rec_driver", [
+      "rec_customer",
+    ]);
+  });
+
+  it("memvalidasi harga setelah profil dan blokir lolos", async () => {
+    vi.mocked(requireDriverProfile).mockResolvedValue(undefined);
+    vi.mocked(rejectIfBlocked).mockResolvedValue(undefined);
+
+    expect(
+      await rejectIfCannotBid("rec_driver", job, 10000, undefined)
+    ).toBeUndefined();
+    expect(
+      (await rejectIfCannotBid("rec_driver", job, 9000, "murah"))?.status
+    ).toBe(403);
+  });
+});
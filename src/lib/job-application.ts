@@ -0,0 +1,141 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
+import { sql } from "kysely";
+import { z } from "zod";
+import { database } from "./database";
+import { requireDriverProfile } from "./driver-profile";
+import { jobStatusValues } from "./job-state-machine";
+import { APIResponse } from "./models/api-response";
+import { getJobPriceQuote, PriceQuote } from "./price-quote";
+import { rejectIfBlocked } from "./user-block";
+
+/**
+ * status lamaran yang masih aktif, setiap driver hanya boleh
+ * memiliki 1 lamaran aktif untuk setiap job
+ */
+export const activeJobApplicationStatuses = [
+  JobApplicationStatus.PENDING,
+  JobApplicationStatus.ACCEPTED,
+];
+
+/**
+ * id lamaran dibuat dari id job, id driver dan jumlah lamaran driver
+ * sebelumnya pada job tersebut. lamaran yang dikirim bersamaan akan
+ * menghasilkan id yang sama sehingga hanya 1 yang berhasil dibuat
+ * (createOnly), sedangkan driver tetap dapat melamar kembali setelah
+ * lamaran sebelumnya ditarik atau ditolak
+ */
+export const getJobApplicationId = (
+  jobId: string,
+  driverId: string,
+  previousApplicationCount: number
+) => `${jobId}_${driverId}_${previousApplicationCount}`;
+
+/**
+ * validasi harga penawaran driver terhadap harga standar job dan
+ * estimasi harga berdasarkan jarak (jika ada), mengembalikan response
+ * error jika penawaran tidak valid
+ */
+export const validateJobBid = (
+  bidPrice: number,
+  bidNote: string | undefined,
+  expectedPrice: number,
+  quote?: PriceQuote
+): Response | undefined => {
+  /**
+   * validasi jika harga penawaran kurang dari harga standar
+   * maka perlu memberikan pesan error
+   */
+  if (bidPrice < expectedPrice)
+    return APIResponse.respondWithForbidden(
+      "Harga penawaran tidak boleh kurang dari harga standar!"
+    );
+
+  // harga penawaran tidak boleh melebihi batas atas estimasi harga
+  if (quote && bidPrice > quote.max_price)
+    return APIResponse.respondWithForbidden(
+      `Harga penawaran tidak boleh lebih dari ${quote.max_price}!`
+    );
+
+  /**
+   * jika harga penawaran tidak sama dengan harga standar
+   * maka perlu memberikan alasan penawaran sehingga
+   * perlu validasi bidNote agar tidak kosong
+   */
+  if (bidPrice !== expectedPrice) {
+    const validate = z
+      .object({
+        bidNote: z
+          .string({ required_error: "Alasan penawaran tidak boleh kosong!" })
+          .min(1, "Alasan penawaran tidak boleh kosong!"),
+      })
+      .safeParse({ bidNote });
+    if (!validate.success)
+      return APIResponse.respondWithBadRequest(
+        validate.error.errors.map((it) => ({
+          path: it.path[0] as string,
+          message: it.message,
+        }))
+      );
+  }
+
+  return undefined;
+};
+
+/**
+ * ambil job yang masih menerima penawaran, yaitu job berstatus open
+ * yang belum diambil oleh driver manapun dan belum kedaluwarsa
+ */
+export const findBiddableJob = async (jobId: string) => {
+  const query = database
+    .selectFrom("jobs as j")
+    .select([
+      "j.status",
+      sql<number>`j."xata.version"`.as("version"),
+      sql<string>`j.customer`.as("customer_id"),
+      "j.expected_price",
+      "j.service",
+      "j.pickup_latitude",
+      "j.pickup_longitude",
+      "j.destination_latitude",
+      "j.destination_longitude",
+    ])
+    .where("j.id", "=", jobId)
+    .where("j.freelancer", "is", null)
+    .where("j.status", "in", jobStatusValues(JobStatus.OPEN))
+    .where((eb) =>
+      eb.or([
+        eb("j.expires_at", "is", null),
+        eb("j.expires_at", ">", sql<Date>`NOW()`),
+      ])
+    );
+  return await query.executeTakeFirst();
+};
+
+type BiddableJob = NonNullable<Awaited<ReturnType<typeof findBiddableJob>>>;
+
+/**
+ * validasi yang sama untuk membuat maupun mengubah penawaran: driver
+ * wajib memiliki profil kendaraan, tidak saling memblokir dengan
+ * customer, dan harga penawaran sesuai dengan harga job. mengembalikan
+ * response error jika penawaran tidak dapat diajukan
+ */
+export const rejectIfCannotBid = async (
+  driverId: string,
+  job: BiddableJob,
+  bidPrice: number,
+  bidNote: string | undefined
+): Promise<Response | undefined> => {
+  const profileError = await requireDriverProfile(driverId);
+  if (profileError) return profileError;
+
+  // driver yang saling memblokir dengan customer tidak dapat melamar
+  const blockError = await rejectIfBlocked(driverId, [job.customer_id]);
+  if (blockError) return blockError;
+
+  return validateJobBid(
+    bidPrice,
+    bidNote,
+    job.expected_price,
+    await getJobPriceQuote(job)
+  );
+};
@@ -0,0 +1,155 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
+import { FetcherError } from "@xata.io/client";
+import { sql } from "kysely";
+import { database, linkId, xata } from "./database";
+import { JobActor } from "./job-state-machine";
+import { jobStatusEventOperation } from "./job-status-events";
+
+interface AssignJobDriver {
+  jobId: string;
+  // xata.version job saat status divalidasi
+  jobVersion: number;
+  previousStatus: JobStatus;
+  driverId: string;
+  price: number;
+  actorId: string;
+  role: JobActor;
+  acceptedApplicationId?: string;
+}
+
+export const getJobVersion = async (jobId: string) => {
+  const query = database
+    .selectFrom("jobs as j")
+    .select(sql<number>`j."xata.version"`.as("version"))
+    .where("j.id", "=", jobId);
+  const result = await query.executeTakeFirst();
+  return result?.version;
+};
+
+// mengecek apakah salah satu lamaran sudah berubah sejak versinya dibaca
+export const isApplicationChanged = async (
+  applications: { id: string; version: number }[]
+): Promise<boolean> => {
+  if (applications.length === 0) return false;
+
+  const query = database
+    .selectFrom("job_applications as ja")
+    .select(["ja.id", sql<number>`ja."xata.version"`.as("version")])
+    .where(
+      "ja.id",
+      "in",
+      applications.map((it) => it.id)
+    );
+  const result = await query.execute();
+
+  return applications.some(
+    (it) =>
+      result.find((current) => current.id === it.id)?.version !== it.version
+  );
+};
+
+/**
+ * menetapkan driver untuk job dalam satu xata transaction, yaitu
+ * mengubah status dan harga job, menerima lamaran yang dipilih,
+ * menolak semua lamaran lain yang masih pending, serta mencatat
+ * perubahan status job.
+ *
+ * mengembalikan undefined jika job atau lamaran yang masih pending
+ * sudah diubah oleh request lain (misal: lamaran ditarik driver)
+ * sejak versinya dibaca, termasuk jika lamaran yang dipilih sudah
+ * tidak pending. lamaran baru ikut mengubah versi job sehingga
+ * lamaran yang dibuat setelah jobVersion dibaca juga menggagalkan
+ * transaksi dan tidak tertinggal dalam status pending.
+ */
+export const assignJobDriver = async ({
+  jobId,
+  jobVersion,
+  previousStatus,
+  driverId,
+  price,
+  actorId,
+  role,
+  acceptedApplicationId,
+}: AssignJobDriver) => {
+  /**
+   * daftar lamaran yang masih pending beserta versinya, versi digunakan
+   * sebagai ifVersion agar perubahan lamaran setelah dibaca tidak tertimpa
+   */
+  const pendingQuery = database
+    .selectFrom("job_applications as ja")
+    .select(["ja.id", sql<number>`ja."xata.version"`.as("version")])
+    .where("ja.job", "=", linkId<"jobs">(jobId))
+    .where("ja.status", "=", JobApplicationStatus.PENDING);
+  const pendingResult = await pendingQuery.execute();
+
+  const acceptedApplication = pendingResult.find(
+    (it) => it.id === acceptedApplicationId
+  );
+  if (acceptedApplicationId && !acceptedApplication) return undefined;
+  const otherApplications = pendingResult.filter(
+    (it) => it.id !== acceptedApplicationId
+  );
+
+  try {
+    return await xata.transactions.run([
+      // menetapkan driver dan harga job
+      {
+        update: {
+          table: "jobs",
+          id: jobId,
+          ifVersion: jobVersion,
+          upsert: false,
+          fields: {
+            freelancer: driverId,
+            price,
+            status: JobStatus.ASSIGNED,
+          },
+        },
+      },
+
+      // menerima lamaran yang dipilih
+      ...(acceptedApplication
+        ? [
+            {
+              update: {
+                table: "job_applications" as const,
+                id: acceptedApplication.id,
+                ifVersion: acceptedApplication.version,
+                upsert: false,
+                fields: { status: JobApplicationStatus.ACCEPTED },
+              },
+            },
+          ]
+        : []),
+
+      // menolak lamaran dari driver lainnya
+      ...otherApplications.map((it) => ({
+        update: {
+          table: "job_applications" as const,
+          id: it.id,
+          ifVersion: it.version,
+          upsert: false,
+          fields: { status: JobApplicationStatus.REJECTED },
+        },
+      })),
+
+      // mencatat perubahan status job
+      jobStatusEventOperation({
+        jobId,
+        actorId,
+        role,
+        previousStatus,
+        newStatus: JobStatus.ASSIGNED,
+      }),
+    ]);
+  } catch (e) {
+    // transaksi gagal karena versi job atau lamaran sudah berubah
+    if (e instanceof FetcherError) {
+      if ((await getJobVersion(jobId)) !== jobVersion) return undefined;
+
+      if (await isApplicationChanged(pendingResult)) return undefined;
+    }
+
+    throw e;
+  }
+};
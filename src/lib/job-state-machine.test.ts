@@ -0,0 +1,77 @@
+import { JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { describe, expect, it } from "vitest";
+import {
+  assertJobTransition,
+  canTransitionJob,
+  jobStatusValues,
+  JobTransitionError,
+  parseJobStatus,
+} from "./job-state-machine";
+
+describe("parseJobStatus", () => {
+  it("membaca status lama sebagai status baru", () => {
+    expect(parseJobStatus("")).toBe(JobStatus.OPEN);
+    expect(parseJobStatus("ongoing")).toBe(JobStatus.ASSIGNED);
+  });
+
+  it("mengembalikan undefined untuk status yang tidak dikenali", () => {
+    expect(parseJobStatus("unknown")).toBeUndefined();
+  });
+});
+
+describe("jobStatusValues", () => {
+  it("menyertakan status lama yang ekuivalen", () => {
+    expect(jobStatusValues(JobStatus.OPEN)).toEqual([JobStatus.OPEN, ""]);
+    expect(jobStatusValues(JobStatus.DONE)).toEqual([JobStatus.DONE]);
+  });
+});
+
+describe("canTransitionJob", () => {
+  it("hanya mengizinkan role yang terdaftar", () => {
+    expect(
+      canTransitionJob(JobStatus.ASSIGNED, JobStatus.PICKED_UP, Role.Driver)
+    ).toBe(true);
+    expect(
+      canTransitionJob(JobStatus.ASSIGNED, JobStatus.PICKED_UP, Role.Customer)
+    ).toBe(false);
+  });
+
+  it("tidak mengizinkan perpindahan dari status akhir", () => {
+    expect(
+      canTransitionJob(JobStatus.DONE, JobStatus.CANCELLED, Role.Admin)
+    ).toBe(false);
+  });
+});
+
+describe("assertJobTransition", () => {
+  it("mengembalikan status saat ini yang sudah dinormalisasi", () => {
+    expect(
+      assertJobTransition("ongoing", JobStatus.PICKED_UP, Role.Driver)
+    ).toBe(JobStatus.ASSIGNED);
+  });
+
+  it("mengizinkan driver menyelesaikan job ongoing secara langsung", () => {
+    expect(assertJobTransition("ongoing", JobStatus.DONE, Role.Driver)).toBe(
+      JobStatus.ASSIGNED
+    );
+    expect(() =>
+      assertJobTransition(JobStatus.ASSIGNED, JobStatus.DONE, Role.Driver)
+    ).toThrow(JobTransitionError);
+    expect(() =>
+      assertJobTransition("ongoing", JobStatus.DONE, Role.Customer)
+    ).toThrow(JobTransitionError);
+  });
+
+  it("melempar JobTransitionError untuk perpindahan yang tidak valid", () => {
+    expect(() =>
+      assertJobTransition(JobStatus.OPEN, JobStatus.DONE, Role.Customer)
+    ).toThrow(JobTransitionError);
+  });
+
+  it("melempar JobTransitionError untuk status yang tidak dikenali", () => {
+    expect(() =>
+      assertJobTransition("unknown", JobStatus.ASSIGNED, Role.Driver)
+    ).toThrow("Status pekerjaan tidak dikenali!");
+  });
+});
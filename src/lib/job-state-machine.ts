@@ -0,0 +1,130 @@
+import { JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+
+/**
+ * pihak yang dapat mengubah status job, "system" digunakan untuk
+ * perubahan status yang tidak dilakukan oleh user (misal: cron)
+ */
+export type JobActor = Role | "system";
+
+/**
+ * daftar perpindahan status job yang diperbolehkan beserta role
+ * yang boleh melakukan perpindahan tersebut
+ */
+const jobTransitions: Record<
+  JobStatus,
+  Partial<Record<JobStatus, JobActor[]>>
+> = {
+  [JobStatus.OPEN]: {
+    [JobStatus.ASSIGNED]: [Role.Customer, Role.Driver],
+    [JobStatus.CANCELLED]: [Role.Customer, Role.Admin],
+    [JobStatus.EXPIRED]: ["system"],
+  },
+  [JobStatus.ASSIGNED]: {
+    [JobStatus.OPEN]: [Role.Driver],
+    [JobStatus.PICKED_UP]: [Role.Driver],
+    [JobStatus.CANCELLED]: [Role.Customer, Role.Admin],
+  },
+  [JobStatus.PICKED_UP]: {
+    [JobStatus.DELIVERED]: [Role.Driver],
+    [JobStatus.CANCELLED]: [Role.Admin],
+  },
+  [JobStatus.DELIVERED]: {
+    [JobStatus.DONE]: [Role.Customer, Role.Driver],
+    [JobStatus.CANCELLED]: [Role.Admin],
+  },
+  [JobStatus.DONE]: {},
+  [JobStatus.CANCELLED]: {},
+  [JobStatus.EXPIRED]: {},
+};
+
+/**
+ * status lama yang masih tersimpan di database sebelum state machine
+ * diterapkan, "" untuk job yang belum diambil driver dan "ongoing"
+ * untuk job yang sudah diambil driver
+ */
+const legacyJobStatuses: Record<string, JobStatus> = {
+  "": JobStatus.OPEN,
+  ongoing: JobStatus.ASSIGNED,
+};
+
+/**
+ * perpindahan tambahan untuk status lama, job "ongoing" tersimpan
+ * sebelum status picked_up dan delivered ada sehingga driver tetap
+ * dapat langsung menyelesaikannya seperti sebelumnya
+ */
+const legacyJobTransitions: Record<
+  string,
+  Partial<Record<JobStatus, JobActor[]>>
+> = {
+  ongoing: { [JobStatus.DONE]: [Role.Driver] },
+};
+
+export class JobTransitionError extends Error {
+  constructor(
+    readonly from: JobStatus | undefined,
+    readonly to: JobStatus,
+    readonly actor: JobActor
+  ) {
+    super(
+      from === undefined
+        ? "Status pekerjaan tidak dikenali!"
+        : `Pekerjaan dengan status ${from} tidak dapat diubah menjadi ${to}!`
+    );
+    this.name = "JobTransitionError";
+  }
+}
+
+export const parseJobStatus = (status: string): JobStatus | undefined => {
+  if (status in legacyJobStatuses) return legacyJobStatuses[status];
+  return Object.values(JobStatus).find((it) => it === status);
+};
+
+/**
+ * mendapatkan nilai kolom status yang perlu dicocokkan pada query,
+ * termasuk status lama yang ekuivalen dengan status yang diminta
+ */
+export const jobStatusValues = (...statuses: JobStatus[]): string[] => [
+  ...statuses,
+  ...Object.entries(legacyJobStatuses)
+    .filter(([_, status]) => statuses.includes(status))
+    .map(([legacy]) => legacy),
+];
+
+export const canTransitionJob = (
+  from: JobStatus,
+  to: JobStatus,
+  actor: JobActor
+): boolean => jobTransitions[from][to]?.includes(actor) ?? false;
+
+/**
+ * validasi perpindahan status job, melempar JobTransitionError jika
+ * perpindahan tidak diperbolehkan dan mengembalikan status saat ini
+ * yang sudah dinormalisasi jika diperbolehkan
+ */
+export const assertJobTransition = (
+  from: string,
+  to: JobStatus,
+  actor: JobActor
+): JobStatus => {
+  const current = parseJobStatus(from);
+  const isLegacyTransition =
+    from in legacyJobTransitions &&
+    (legacyJobTransitions[from][to]?.includes(actor) ?? false);
+  if (!current || !(canTransitionJob(current, to, actor) || isLegacyTransition))
+    throw new JobTransitionError(current, to, actor);
+
+  return current;
+};
+
+export const activeJobStatuses = [
+  JobStatus.ASSIGNED,
+  JobStatus.PICKED_UP,
+  JobStatus.DELIVERED,
+];
+
+export const finishedJobStatuses = [
+  JobStatus.DONE,
+  JobStatus.CANCELLED,
+  JobStatus.EXPIRED,
+];
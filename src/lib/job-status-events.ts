@@ -0,0 +1,35 @@
+import { JobStatus } from "@/constants/constants";
+import { JobActor } from "./job-state-machine";
+
+interface JobStatusEvent {
+  jobId: string;
+  // kosong jika perubahan dilakukan oleh system
+  actorId?: string;
+  role: JobActor;
+  previousStatus: JobStatus;
+  newStatus: JobStatus;
+}
+
+/**
+ * operasi insert job_status_events sebagai riwayat (audit trail) status
+ * job, selalu digunakan di dalam xata transaction bersama perubahan
+ * status job (lihat updateJobStatus dan assignJobDriver)
+ */
+export const jobStatusEventOperation = ({
+  jobId,
+  actorId,
+  role,
+  previousStatus,
+  newStatus,
+}: JobStatusEvent) => ({
+  insert: {
+    table: "job_status_events" as const,
+    record: {
+      job: jobId,
+      actor: actorId ?? null,
+      role,
+      previous_status: previousStatus,
+      new_status: newStatus,
+    },
+  },
+});
@@ -0,0 +1,116 @@
+import { JobApplicationStatus, JobStatus } from "@/constants/constants";
+import { FetcherError } from "@xata.io/client";
+import { sql } from "kysely";
+import { database, linkId, xata } from "./database";
+import { getJobVersion, isApplicationChanged } from "./job-assignment";
+import { JobActor } from "./job-state-machine";
+import { jobStatusEventOperation } from "./job-status-events";
+
+interface JobApplicationStatusUpdate {
+  from: JobApplicationStatus;
+  to: JobApplicationStatus;
+  // hanya lamaran milik driver ini, kosong untuk seluruh driver
+  driverId?: string;
+}
+
+interface JobStatusUpdate {
+  jobId: string;
+  // xata.version job saat status divalidasi
+  jobVersion: number;
+  // kosong jika perubahan dilakukan oleh system
+  actorId?: string;
+  role: JobActor;
+  previousStatus: JobStatus;
+  newStatus: JobStatus;
+  // kolom job lain yang ikut diubah bersama status
+  fields?: {
+    freelancer?: string | null;
+    cancellation_reason?: string;
+    cancellation_note?: string;
+  };
+  // lamaran yang statusnya ikut diubah (misal: pending menjadi rejected)
+  applications?: JobApplicationStatusUpdate;
+}
+
+/**
+ * mengubah status job, status lamaran terkait, serta mencatat perubahan
+ * status ke job_status_events dalam satu xata transaction sehingga
+ * riwayat status tidak pernah tertinggal dari status job.
+ *
+ * versi job harus dibaca sebelum fungsi ini dipanggil, lamaran baru
+ * yang dibuat setelahnya ikut mengubah versi job (lihat POST lamaran)
+ * sehingga tidak ada lamaran yang terlewat.
+ *
+ * mengembalikan false jika job atau lamaran sudah diubah oleh request
+ * lain sejak versinya dibaca
+ */
+export const updateJobStatus = async ({
+  jobId,
+  jobVersion,
+  actorId,
+  role,
+  previousStatus,
+  newStatus,
+  fields,
+  applications,
+}: JobStatusUpdate): Promise<boolean> => {
+  /**
+   * lamaran yang diubah beserta versinya, versi digunakan sebagai
+   * ifVersion agar perubahan lamaran setelah dibaca tidak tertimpa
+   */
+  const applicationsResult = applications
+    ? await database
+        .selectFrom("job_applications as ja")
+        .select(["ja.id", sql<number>`ja."xata.version"`.as("version")])
+        .where("ja.job", "=", linkId<"jobs">(jobId))
+        .where("ja.status", "=", applications.from)
+        .$if(!!applications.driverId, (qb) =>
+          qb.where(
+            "ja.freelancer",
+            "=",
+            linkId<"users">(applications.driverId!)
+          )
+        )
+        .execute()
+    : [];
+
+  try {
+    await xata.transactions.run([
+      {
+        update: {
+          table: "jobs",
+          id: jobId,
+          ifVersion: jobVersion,
+          upsert: false,
+          fields: { ...fields, status: newStatus },
+        },
+      },
+      ...applicationsResult.map((it) => ({
+        update: {
+          table: "job_applications" as const,
+          id: it.id,
+          ifVersion: it.version,
+          upsert: false,
+          fields: { status: applications!.to },
+        },
+      })),
+      jobStatusEventOperation({
+        jobId,
+        actorId,
+        role,
+        previousStatus,
+        newStatus,
+      }),
+    ]);
+    return true;
+  } catch (e) {
+    // transaksi gagal karena versi job atau lamaran sudah berubah
+    if (e instanceof FetcherError) {
+      if ((await getJobVersion(jobId)) !== jobVersion) return false;
+
+      if (await isApplicationChanged(applicationsResult)) return false;
+    }
+
+    throw e;
+  }
+};
@@ -0,0 +1,40 @@
+import { getMailSender } from ".";
+
+const appUrl = process.env.APP_URL ?? "https://unitip.vercel.app";
+
+export const sendEmailVerificationMail = async (
+  email: string,
+  name: string,
+  token: string
+) =>
+  await getMailSender().send({
+    to: email,
+    subject: "Verifikasi alamat email Unitip",
+    text: [
+      `Halo ${name},`,
+      "",
+      "Silahkan verifikasi alamat email Anda melalui tautan berikut:",
+      `${appUrl}/verify-email?token=${token}`,
+      "",
+      "Tautan ini berlaku selama 24 jam.",
+    ].join("\n"),
+  });
+
+export const sendPasswordResetMail = async (
+  email: string,
+  name: string,
+  token: string
+) =>
+  await getMailSender().send({
+    to: email,
+    subject: "Atur ulang kata sandi Unitip",
+    text: [
+      `Halo ${name},`,
+      "",
+      "Kami menerima permintaan untuk mengatur ulang kata sandi akun Anda.",
+      "Silahkan atur ulang kata sandi melalui tautan berikut:",
+      `${appUrl}/reset-password?token=${token}`,
+      "",
+      "Tautan ini berlaku selama 1 jam. Abaikan email ini jika Anda tidak merasa meminta untuk mengatur ulang kata sandi.",
+    ].join("\n"),
+  });
@@ -0,0 +1,12 @@
+import { Mail, MailSender } from "./mail-sender";
+
+/**
+ * transport untuk development, hanya penerima dan subjek email yang
+ * ditampilkan di console karena isi email berisi token akun. gunakan
+ * transport file untuk membaca isi email
+ */
+export const consoleMailSender: MailSender = {
+  send: async (mail: Mail) => {
+    console.log(`[mail] to: ${mail.to}\n[mail] subject: ${mail.subject}`);
+  },
+};
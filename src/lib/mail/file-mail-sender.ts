@@ -0,0 +1,21 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Mail, MailSender } from "./mail-sender";
+
+// direktori penyimpanan email, default .mails pada root project
+const mailDirectory = process.env.MAIL_FILE_DIRECTORY || ".mails";
+
+/**
+ * transport untuk development dan testing, setiap email disimpan sebagai
+ * file json sehingga isinya (misal: token) dapat dibaca kembali
+ */
+export const fileMailSender: MailSender = {
+  send: async (mail: Mail) => {
+    await mkdir(mailDirectory, { recursive: true });
+    await writeFile(
+      path.join(mailDirectory, `${Date.now()}-${uuidv4()}.json`),
+      JSON.stringify({ ...mail, sent_at: new Date().toISOString() }, null, 2)
+    );
+  },
+};
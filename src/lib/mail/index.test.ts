@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getMailSender } from ".";
+import { consoleMailSender } from "./console-mail-sender";
+import { fileMailSender } from "./file-mail-sender";
+
+describe("getMailSender", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("menggunakan console secara default di development", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("MAIL_TRANSPORT", undefined);
+    expect(getMailSender()).toBe(consoleMailSender);
+  });
+
+  it("menggunakan transport sesuai MAIL_TRANSPORT", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("MAIL_TRANSPORT", "file");
+    expect(getMailSender()).toBe(fileMailSender);
+  });
+
+  it("melempar error untuk transport yang tidak dikenali", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("MAIL_TRANSPORT", "smpt");
+    expect(() => getMailSender()).toThrow("Transport email tidak tersedia");
+  });
+
+  it("menolak transport development di production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("MAIL_TRANSPORT", undefined);
+    expect(() => getMailSender()).toThrow();
+    vi.stubEnv("MAIL_TRANSPORT", "console");
+    expect(() => getMailSender()).toThrow();
+  });
+});
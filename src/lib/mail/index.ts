@@ -0,0 +1,37 @@
+import { consoleMailSender } from "./console-mail-sender";
+import { fileMailSender } from "./file-mail-sender";
+import { MailSender } from "./mail-sender";
+
+export type { Mail, MailSender } from "./mail-sender";
+
+/**
+ * transport untuk development, tidak dapat digunakan di production
+ * karena email tidak benar-benar dikirim ke user
+ */
+const developmentMailSenders: Record<string, MailSender> = {
+  console: consoleMailSender,
+  file: fileMailSender,
+};
+
+// transport production (smtp, api pihak ketiga, dll) didaftarkan di sini
+const productionMailSenders: Record<string, MailSender> = {};
+
+/**
+ * mendapatkan pengirim email berdasarkan env MAIL_TRANSPORT, default
+ * menggunakan console. melempar error jika transport tidak dikenali
+ * atau transport development digunakan di production, sehingga token
+ * pada email tidak pernah berakhir di log server
+ */
+export const getMailSender = (): MailSender => {
+  const transport = process.env.MAIL_TRANSPORT ?? "console";
+  const mailSenders =
+    process.env.NODE_ENV === "production"
+      ? productionMailSenders
+      : { ...developmentMailSenders, ...productionMailSenders };
+
+  const mailSender = mailSenders[transport];
+  if (!mailSender)
+    throw new Error(`Transport email tidak tersedia: ${transport}`);
+
+  return mailSender;
+};
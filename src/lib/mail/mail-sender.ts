@@ -0,0 +1,14 @@
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * antarmuka pengirim email, implementasi dipilih melalui env
+ * MAIL_TRANSPORT (lihat getMailSender) sehingga transport production
+ * (smtp, api pihak ketiga, dll) cukup mengimplementasikan interface ini
+ */
+export interface MailSender {
+  send: (mail: Mail) => Promise<void>;
+}
@@ -17,6 +17,13 @@ export const APIResponse = {
   respondWithConflict: (message: string) =>
     Response.json({ message }, { status: 409 }),
 
+  // retryAfter dalam detik, dikirim juga melalui header Retry-After
+  respondWithTooManyRequests: (message: string, retryAfter: number) =>
+    Response.json(
+      { message, retry_after: retryAfter },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    ),
+
   respondWithServerError: (
     message: string = "Terjadi kesalahan tak terduga pada server!"
   ) => Response.json({ message }, { status: 500 }),
@@ -0,0 +1,64 @@
+import { connectAsync } from "mqtt";
+import { getPrefixedTopic } from "./utils";
+
+export interface UserNotification {
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export const getNotificationTopic = (userId: string) =>
+  getPrefixedTopic(`notifications/${userId}`);
+
+// batas waktu koneksi dan pengiriman ke broker (dalam milidetik)
+const brokerTimeout = 5 * 1000;
+
+const publishNotification = async (
+  userId: string,
+  notification: UserNotification
+) => {
+  // koneksi tidak dicoba ulang agar kegagalan broker tidak menggantung
+  const client = await connectAsync(
+    "wss://broker.hivemq.com:8884/mqtt",
+    { connectTimeout: brokerTimeout, reconnectPeriod: 0 },
+    false
+  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      client.publishAsync(
+        getNotificationTopic(userId),
+        JSON.stringify(notification),
+        { qos: 2 }
+      ),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("Pengiriman notifikasi melebihi batas waktu")),
+          brokerTimeout
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    client.end(true);
+  }
+};
+
+/**
+ * mengirim notifikasi ke user melalui broker mqtt yang sama dengan
+ * yang digunakan oleh client. notifikasi ditunggu sebelum response
+ * dikirim karena fungsi serverless dapat dihentikan setelah response
+ * terkirim, kegagalan pengiriman hanya dicatat dan tidak menggagalkan
+ * request yang memanggilnya
+ */
+export const notifyUser = async (
+  userId: string,
+  notification: UserNotification
+) => {
+  try {
+    await publishNotification(userId, notification);
+  } catch (e) {
+    console.log(e);
+  }
+};
@@ -0,0 +1,280 @@
+import {
+  ApplicantStatus,
+  ChatMessageType,
+  JobStatus,
+} from "@/constants/constants";
+import { FetcherError } from "@xata.io/client";
+import { sql } from "kysely";
+import { database, linkId, xata } from "./database";
+import {
+  getChatMessagePreview,
+  getChatRoomMemberIds,
+  incrementUnreadMessageCounts,
+} from "./chat-room";
+
+/**
+ * id room chat dibuat dari id job/offer applicant sehingga setiap
+ * order hanya memiliki 1 room, termasuk ketika dibuat bersamaan
+ */
+export const getJobChatRoomId = (jobId: string) => `job_${jobId}`;
+export const getOfferApplicantChatRoomId = (applicantId: string) =>
+  `offer_applicant_${applicantId}`;
+
+/**
+ * subquery id room chat order untuk response detail, kosong jika room
+ * belum dibuat atau user bukan anggota room tersebut
+ */
+export const selectMemberChatRoomId = (roomId: string, userId: string) =>
+  database
+    .selectFrom("chat_room_members as crm")
+    .select(sql<string>`crm.room`.as("room"))
+    .where("crm.room", "=", linkId<"chat_rooms">(roomId))
+    .where("crm.user", "=", linkId<"users">(userId))
+    .as("room_id");
+
+// isi pesan system untuk setiap perubahan status job
+const jobStatusMessages: Record<JobStatus, string> = {
+  [JobStatus.OPEN]:
+    "Driver batal mengambil pesanan, pesanan kembali mencari driver",
+  [JobStatus.ASSIGNED]: "Driver telah ditetapkan untuk pesanan ini",
+  [JobStatus.PICKED_UP]: "Driver telah menjemput pesanan",
+  [JobStatus.DELIVERED]: "Pesanan telah sampai di tujuan",
+  [JobStatus.DONE]: "Pesanan telah selesai",
+  [JobStatus.CANCELLED]: "Pesanan dibatalkan",
+  [JobStatus.EXPIRED]: "Pesanan telah kedaluwarsa",
+};
+
+// isi pesan system untuk setiap perubahan status offer applicant
+const applicantStatusMessages: Record<ApplicantStatus, string> = {
+  [ApplicantStatus.PENDING]: "Permintaan tumpangan menunggu konfirmasi driver",
+  [ApplicantStatus.ACCEPTED]: "Permintaan tumpangan diterima oleh driver",
+  [ApplicantStatus.REJECTED]: "Permintaan tumpangan ditolak",
+  [ApplicantStatus.ON_THE_WAY]: "Driver sedang dalam perjalanan",
+  [ApplicantStatus.DONE]: "Perjalanan telah selesai",
+};
+
+interface OrderChatRoom {
+  roomId: string;
+  // link order pada chat_rooms
+  link: { job: string } | { offer_applicant: string };
+  memberIds: string[];
+}
+
+/**
+ * membuat room chat order jika belum ada, atau menyesuaikan anggota
+ * room yang sudah ada (misal: driver job berganti) sehingga room
+ * yang sama tetap digunakan
+ */
+const ensureOrderChatRoom = async ({
+  roomId,
+  link,
+  memberIds,
+}: OrderChatRoom) => {
+  const roomQuery = database
+    .selectFrom("chat_rooms as cr")
+    .select(["cr.id"])
+    .where("cr.id", "=", roomId);
+  const roomResult = await roomQuery.executeTakeFirst();
+
+  if (!roomResult) {
+    try {
+      await xata.transactions.run([
+        {
+          insert: {
+            table: "chat_rooms",
+            createOnly: true,
+            record: { id: roomId, ...link },
+          },
+        },
+        ...memberIds.map((it) => ({
+          insert: {
+            table: "chat_room_members" as const,
+            createOnly: true,
+            record: { id: `${roomId}_${it}`, room: roomId, user: it },
+          },
+        })),
+      ]);
+      return;
+    } catch (e) {
+      // room sudah dibuat oleh request lain, lanjutkan penyesuaian anggota
+      if (!(e instanceof FetcherError)) throw e;
+    }
+  }
+
+  const currentMemberIds = await getChatRoomMemberIds(roomId);
+  const addedMemberIds = memberIds.filter(
+    (it) => !currentMemberIds.includes(it)
+  );
+  const removedMemberIds = currentMemberIds.filter(
+    (it) => !memberIds.includes(it)
+  );
+
+  if (addedMemberIds.length > 0) {
+    try {
+      await xata.transactions.run(
+        addedMemberIds.map((it) => ({
+          insert: {
+            table: "chat_room_members" as const,
+            createOnly: true,
+            record: { id: `${roomId}_${it}`, room: roomId, user: it },
+          },
+        }))
+      );
+    } catch (e) {
+      /**
+       * anggota sudah ditambahkan oleh request lain (misal: perubahan
+       * status yang bersamaan), dianggap berhasil jika seluruh anggota
+       * sudah tersimpan
+       */
+      if (!(e instanceof FetcherError)) throw e;
+
+      const latestMemberIds = await getChatRoomMemberIds(roomId);
+      if (!addedMemberIds.every((it) => latestMemberIds.includes(it))) throw e;
+    }
+  }
+
+  if (removedMemberIds.length > 0)
+    await database
+      .deleteFrom("chat_room_members")
+      .where("room", "=", linkId<"chat_rooms">(roomId))
+      .where(
+        "user",
+        "in",
+        removedMemberIds.map((it) => linkId<"users">(it))
+      )
+      .execute();
+};
+
+interface SystemChatMessage {
+  roomId: string;
+  message: string;
+  // order yang ditampilkan sebagai kartu order pada pesan
+  job?: string;
+  offer?: string;
+}
+
+/**
+ * mengirim pesan system (tanpa pengirim) ke room chat, seluruh
+ * anggota room mendapatkan tambahan unread message count
+ */
+const postSystemChatMessage = async ({
+  roomId,
+  message,
+  job,
+  offer,
+}: SystemChatMessage) => {
+  const type = ChatMessageType.SYSTEM;
+  await database
+    .insertInto("chat_messages")
+    .values({
+      type,
+      message,
+      is_deleted: false,
+      room: roomId,
+      job: job ?? null,
+      offer: offer ?? null,
+    } as any)
+    .execute();
+
+  await database
+    .updateTable("chat_rooms")
+    .set({
+      last_message: getChatMessagePreview({ type, message }),
+      last_sent_user: linkId<"users">(null),
+    })
+    .where("id", "=", roomId)
+    .execute();
+
+  await incrementUnreadMessageCounts(roomId);
+};
+
+/**
+ * menyesuaikan room chat job dan mengirim pesan system untuk status
+ * job terbaru. room dibuat ketika job sudah memiliki driver, anggota
+ * room adalah customer dan driver job saat ini.
+ *
+ * sama seperti notifikasi, kegagalan hanya dicatat dan tidak
+ * menggagalkan perubahan status yang sudah tersimpan
+ */
+export const announceJobStatus = async (jobId: string, status: JobStatus) => {
+  try {
+    const roomId = getJobChatRoomId(jobId);
+    const jobQuery = database
+      .selectFrom("jobs as j")
+      .select((eb) => [
+        sql<string>`j.customer`.as("customer_id"),
+        sql<string | null>`j.freelancer`.as("freelancer_id"),
+        eb
+          .selectFrom("chat_rooms as cr")
+          .select(["cr.id"])
+          .where("cr.id", "=", roomId)
+          .as("room_id"),
+      ])
+      .where("j.id", "=", jobId);
+    const jobResult = await jobQuery.executeTakeFirst();
+    if (!jobResult) return;
+
+    // job yang belum pernah memiliki driver tidak memiliki room chat
+    const { customer_id: customerId, freelancer_id: freelancerId } = jobResult;
+    if (!jobResult.room_id && !freelancerId) return;
+
+    await ensureOrderChatRoom({
+      roomId,
+      link: { job: jobId },
+      memberIds: freelancerId ? [customerId, freelancerId] : [customerId],
+    });
+    await postSystemChatMessage({
+      roomId,
+      message: jobStatusMessages[status],
+      job: jobId,
+    });
+  } catch (e) {
+    console.log(e);
+  }
+};
+
+/**
+ * menyesuaikan room chat offer applicant dan mengirim pesan system
+ * untuk status applicant terbaru. room dibuat ketika applicant
+ * diterima, anggota room adalah driver offer dan customer applicant
+ */
+export const announceApplicantStatus = async (
+  applicantId: string,
+  status: ApplicantStatus
+) => {
+  try {
+    const roomId = getOfferApplicantChatRoomId(applicantId);
+    const applicantQuery = database
+      .selectFrom("offer_applicants as oa")
+      .innerJoin("offers as o", "o.id", "oa.offer")
+      .select((eb) => [
+        sql<string>`oa.offer`.as("offer_id"),
+        sql<string>`oa.customer`.as("customer_id"),
+        sql<string>`o.freelancer`.as("freelancer_id"),
+        eb
+          .selectFrom("chat_rooms as cr")
+          .select(["cr.id"])
+          .where("cr.id", "=", roomId)
+          .as("room_id"),
+      ])
+      .where("oa.id", "=", applicantId);
+    const applicantResult = await applicantQuery.executeTakeFirst();
+    if (!applicantResult) return;
+
+    // applicant yang belum pernah diterima tidak memiliki room chat
+    if (!applicantResult.room_id && status !== ApplicantStatus.ACCEPTED) return;
+
+    await ensureOrderChatRoom({
+      roomId,
+      link: { offer_applicant: applicantId },
+      memberIds: [applicantResult.freelancer_id, applicantResult.customer_id],
+    });
+    await postSystemChatMessage({
+      roomId,
+      message: applicantStatusMessages[status],
+      offer: applicantResult.offer_id,
+    });
+  } catch (e) {
+    console.log(e);
+  }
+};
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getJobPriceQuote } from "./price-quote";
+
+const { executeTakeFirst } = vi.hoisted(() => ({
+  executeTakeFirst: vi.fn(),
+}));
+
+// query builder tiruan, setiap method mengembalikan builder yang sama
+vi.mock("./database", () => {
+  const builder: any = new Proxy(
+    {},
+    {
+      get: (_, property) =>
+        property === "executeTakeFirst" ? executeTakeFirst : () => builder,
+    }
+  );
+  return { database: builder, xata: {} };
+});
+
+// jarak pickup ke tujuan sekitar 5,56 km
+const job = {
+  service: "food",
+  pickup_latitude: 0,
+  pickup_longitude: 0,
+  destination_latitude: 0.05,
+  destination_longitude: 0,
+};
+
+describe("getJobPriceQuote", () => {
+  beforeEach(() => {
+    executeTakeFirst.mockReset();
+  });
+
+  it("mengembalikan undefined jika koordinat job tidak lengkap", async () => {
+    expect(
+      await getJobPriceQuote({ ...job, pickup_latitude: null })
+    ).toBeUndefined();
+    expect(executeTakeFirst).not.toHaveBeenCalled();
+  });
+
+  it("mengembalikan undefined jika belum ada tarif untuk jarak tersebut", async () => {
+    executeTakeFirst.mockResolvedValue(undefined);
+    expect(await getJobPriceQuote(job)).toBeUndefined();
+  });
+
+  it("menaikkan harga rekomendasi secara linear di dalam rentang jarak", async () => {
+    executeTakeFirst.mockResolvedValue({
+      min_price: 10000,
+      max_price: 20000,
+      min_distance_km: 0,
+      max_distance_km: 10,
+    });
+    expect(await getJobPriceQuote(job)).toEqual({
+      distance_km: 5.56,
+      recommended_price: 15500,
+      min_price: 10000,
+      max_price: 20000,
+    });
+  });
+
+  it("menggunakan harga minimum untuk rentang tanpa batas atas", async () => {
+    executeTakeFirst.mockResolvedValue({
+      min_price: 30000,
+      max_price: 50000,
+      min_distance_km: 5,
+      max_distance_km: null,
+    });
+    expect((await getJobPriceQuote(job))?.recommended_price).toBe(30000);
+  });
+});
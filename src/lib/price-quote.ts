@@ -0,0 +1,122 @@
+import { database } from "./database";
+import { calculateDistanceKm } from "./geo";
+
+export interface PriceQuote {
+  distance_km: number;
+  recommended_price: number;
+  min_price: number;
+  max_price: number;
+}
+
+interface PriceQuoteRequest {
+  service: string;
+  pickupLatitude: number;
+  pickupLongitude: number;
+  destinationLatitude: number;
+  destinationLongitude: number;
+}
+
+// harga rekomendasi dibulatkan ke kelipatan 500 rupiah
+const priceRounding = 500;
+
+/**
+ * menghitung estimasi harga berdasarkan jarak penjemputan ke tujuan dan
+ * tarif pada tabel service_prices, setiap baris service_prices berisi
+ * rentang jarak (min_distance_km - max_distance_km) beserta rentang
+ * harga yang diperbolehkan untuk jarak tersebut
+ *
+ * mengembalikan undefined jika belum ada tarif untuk jarak tersebut
+ */
+export const getPriceQuote = async ({
+  service,
+  pickupLatitude,
+  pickupLongitude,
+  destinationLatitude,
+  destinationLongitude,
+}: PriceQuoteRequest): Promise<PriceQuote | undefined> => {
+  const distanceKm = calculateDistanceKm(
+    { latitude: pickupLatitude, longitude: pickupLongitude },
+    { latitude: destinationLatitude, longitude: destinationLongitude }
+  );
+
+  const query = database
+    .selectFrom("service_prices as sp")
+    .select([
+      "sp.min_price",
+      "sp.max_price",
+      "sp.min_distance_km",
+      "sp.max_distance_km",
+    ])
+    .where("sp.service", "=", service)
+    .where("sp.min_distance_km", "<=", distanceKm)
+    .where((eb) =>
+      eb.or([
+        eb("sp.max_distance_km", "is", null),
+        eb("sp.max_distance_km", ">", distanceKm),
+      ])
+    )
+    .orderBy("sp.min_distance_km desc");
+  const result = await query.executeTakeFirst();
+
+  if (!result) return undefined;
+
+  /**
+   * harga rekomendasi naik secara linear di dalam rentang jarak, untuk
+   * rentang tanpa batas atas digunakan harga minimum
+   */
+  const maxDistanceKm = result.max_distance_km ?? undefined;
+  const ratio =
+    maxDistanceKm !== undefined && maxDistanceKm > result.min_distance_km
+      ? (distanceKm - result.min_distance_km) /
+        (maxDistanceKm - result.min_distance_km)
+      : 0;
+  const recommendedPrice = Math.min(
+    result.max_price,
+    Math.max(
+      result.min_price,
+      Math.round(
+        (result.min_price + (result.max_price - result.min_price) * ratio) /
+          priceRounding
+      ) * priceRounding
+    )
+  );
+
+  return {
+    distance_km: Math.round(distanceKm * 100) / 100,
+    recommended_price: recommendedPrice,
+    min_price: result.min_price,
+    max_price: result.max_price,
+  };
+};
+
+interface JobCoordinates {
+  service: string;
+  pickup_latitude?: number | null;
+  pickup_longitude?: number | null;
+  destination_latitude?: number | null;
+  destination_longitude?: number | null;
+}
+
+/**
+ * estimasi harga untuk job yang sudah tersimpan, mengembalikan undefined
+ * jika job tidak memiliki koordinat lengkap
+ */
+export const getJobPriceQuote = async (
+  job: JobCoordinates
+): Promise<PriceQuote | undefined> => {
+  if (
+    job.pickup_latitude == null ||
+    job.pickup_longitude == null ||
+    job.destination_latitude == null ||
+    job.destination_longitude == null
+  )
+    return undefined;
+
+  return await getPriceQuote({
+    service: job.service,
+    pickupLatitude: job.pickup_latitude,
+    pickupLongitude: job.pickup_longitude,
+    destinationLatitude: job.destination_latitude,
+    destinationLongitude: job.destination_longitude,
+  });
+};
@@ -0,0 +1,19 @@
+export interface AttemptRecord {
+  // jumlah percobaan gagal berturut-turut
+  failures: number;
+  // waktu (epoch ms) sampai percobaan berikutnya diperbolehkan
+  blockedUntil: number;
+}
+
+/**
+ * antarmuka penyimpanan penghitung percobaan, implementasi dipilih
+ * melalui env RATE_LIMIT_STORE (lihat getAttemptStore) sehingga
+ * penyimpanan bersama (redis, dll) untuk beberapa instance server
+ * cukup mengimplementasikan interface ini
+ */
+export interface AttemptStore {
+  get: (key: string) => Promise<AttemptRecord | undefined>;
+  // expiresAt dalam epoch ms, record dihapus otomatis setelah waktu tersebut
+  set: (key: string, record: AttemptRecord, expiresAt: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
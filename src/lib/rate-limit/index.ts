@@ -0,0 +1,15 @@
+import { AttemptStore } from "./attempt-store";
+import { memoryAttemptStore } from "./memory-attempt-store";
+
+export type { AttemptRecord, AttemptStore } from "./attempt-store";
+
+const attemptStores: Record<string, AttemptStore> = {
+  memory: memoryAttemptStore,
+};
+
+/**
+ * mendapatkan penyimpanan penghitung percobaan berdasarkan env
+ * RATE_LIMIT_STORE, default menggunakan memori
+ */
+export const getAttemptStore = (): AttemptStore =>
+  attemptStores[process.env.RATE_LIMIT_STORE ?? "memory"] ?? memoryAttemptStore;
@@ -0,0 +1,130 @@
+import { getAttemptStore } from ".";
+
+interface ThrottlePolicy {
+  // jumlah percobaan gagal yang diperbolehkan tanpa jeda
+  freeAttempts: number;
+  // jeda awal setelah freeAttempts terlampaui, berlipat 2 setiap gagal
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // jumlah percobaan gagal sampai akun/ip dikunci sementara
+  lockoutAttempts: number;
+  lockoutMs: number;
+  // penghitung direset jika tidak ada percobaan gagal selama window
+  windowMs: number;
+}
+
+/**
+ * batas per email lebih ketat untuk melindungi akun tertentu, batas
+ * per ip lebih longgar karena banyak mahasiswa dapat berbagi ip yang
+ * sama (jaringan kampus)
+ */
+const emailPolicy: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAttempts: 10,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+const ipPolicy: ThrottlePolicy = {
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAttempts: 50,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+interface ThrottleKey {
+  key: string;
+  policy: ThrottlePolicy;
+}
+
+export interface LoginThrottleKeys {
+  ip: ThrottleKey;
+  email?: ThrottleKey;
+}
+
+export const getClientIp = (request: Request): string =>
+  request.headers.get("X-Forwarded-For")?.split(",")[0].trim() ||
+  request.headers.get("X-Real-IP")?.trim() ||
+  "unknown";
+
+export const getLoginThrottleKeys = (
+  request: Request,
+  email: unknown
+): LoginThrottleKeys => ({
+  ip: { key: `login:ip:${getClientIp(request)}`, policy: ipPolicy },
+  email:
+    typeof email === "string" && email.trim()
+      ? {
+          key: `login:email:${email.trim().toLowerCase()}`,
+          policy: emailPolicy,
+        }
+      : undefined,
+});
+
+const throttleKeysOf = (keys: LoginThrottleKeys): ThrottleKey[] =>
+  keys.email ? [keys.ip, keys.email] : [keys.ip];
+
+/**
+ * mendapatkan sisa waktu tunggu (detik) sebelum percobaan login
+ * berikutnya diperbolehkan, undefined jika tidak sedang dibatasi
+ */
+export const getLoginRetryAfter = async (
+  keys: LoginThrottleKeys
+): Promise<number | undefined> => {
+  const store = getAttemptStore();
+  const now = Date.now();
+
+  let blockedUntil = 0;
+  for (const { key } of throttleKeysOf(keys)) {
+    const record = await store.get(key);
+    if (record && record.blockedUntil > blockedUntil)
+      blockedUntil = record.blockedUntil;
+  }
+
+  if (blockedUntil <= now) return undefined;
+  return Math.ceil((blockedUntil - now) / 1000);
+};
+
+/**
+ * mencatat percobaan login yang gagal, jeda berlipat 2 setiap gagal
+ * setelah freeAttempts dan dikunci sementara setelah lockoutAttempts
+ */
+export const recordLoginFailure = async (keys: LoginThrottleKeys) => {
+  const store = getAttemptStore();
+  const now = Date.now();
+
+  for (const { key, policy } of throttleKeysOf(keys)) {
+    const record = await store.get(key);
+    const failures = (record?.failures ?? 0) + 1;
+
+    let blockedUntil = 0;
+    if (failures >= policy.lockoutAttempts)
+      blockedUntil = now + policy.lockoutMs;
+    else if (failures > policy.freeAttempts)
+      blockedUntil =
+        now +
+        Math.min(
+          policy.baseDelayMs * 2 ** (failures - policy.freeAttempts - 1),
+          policy.maxDelayMs
+        );
+
+    await store.set(
+      key,
+      { failures, blockedUntil },
+      Math.max(blockedUntil, now) + policy.windowMs
+    );
+  }
+};
+
+/**
+ * reset penghitung email setelah login berhasil, penghitung ip tidak
+ * direset agar 1 akun valid tidak dapat digunakan untuk membuka
+ * batasan percobaan terhadap akun lain
+ */
+export const resetLoginAttempts = async (keys: LoginThrottleKeys) => {
+  if (keys.email) await getAttemptStore().delete(keys.email.key);
+};
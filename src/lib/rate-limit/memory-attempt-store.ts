@@ -0,0 +1,37 @@
+import { AttemptRecord, AttemptStore } from "./attempt-store";
+
+const records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+/**
+ * hapus record yang sudah kedaluwarsa agar map tidak terus membesar
+ */
+const pruneExpiredRecords = (now: number) => {
+  records.forEach((value, key) => {
+    if (value.expiresAt <= now) records.delete(key);
+  });
+};
+
+/**
+ * penyimpanan default di memori proses, penghitung tidak dibagikan
+ * antar instance server dan hilang ketika server dimulai ulang
+ */
+export const memoryAttemptStore: AttemptStore = {
+  get: async (key: string) => {
+    const value = records.get(key);
+    if (!value) return undefined;
+
+    if (value.expiresAt <= Date.now()) {
+      records.delete(key);
+      return undefined;
+    }
+
+    return value.record;
+  },
+  set: async (key: string, record: AttemptRecord, expiresAt: number) => {
+    pruneExpiredRecords(Date.now());
+    records.set(key, { record, expiresAt });
+  },
+  delete: async (key: string) => {
+    records.delete(key);
+  },
+};
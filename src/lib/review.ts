@@ -0,0 +1,105 @@
+import { Role } from "@/constants/role";
+import { FetcherError } from "@xata.io/client";
+import { z } from "zod";
+import { database, xata } from "./database";
+import { APIResponse } from "./models/api-response";
+
+/**
+ * validasi rating (1-5) dan komentar ulasan, mengembalikan response
+ * error jika tidak valid
+ */
+export const validateReview = (
+  rating: number,
+  comment: string | undefined
+): Response | undefined => {
+  const validate = z
+    .object({
+      rating: z
+        .number({ required_error: "Rating tidak boleh kosong!" })
+        .int("Rating harus berupa bilangan bulat!")
+        .min(1, "Rating minimal 1!")
+        .max(5, "Rating maksimal 5!"),
+      comment: z
+        .string()
+        .max(500, "Komentar maksimal terdiri dari 500 karakter!")
+        .optional(),
+    })
+    .safeParse({ rating, comment });
+  if (!validate.success)
+    return APIResponse.respondWithBadRequest(
+      validate.error.errors.map((it) => ({
+        path: it.path[0] as string,
+        message: it.message,
+      }))
+    );
+
+  return undefined;
+};
+
+interface Review {
+  reviewerId: string;
+  revieweeId: string;
+  // role user yang diulas pada pesanan tersebut
+  revieweeRole: Role;
+  // salah satu dari jobId atau offerApplicantId harus diisi
+  jobId?: string;
+  offerApplicantId?: string;
+  rating: number;
+  comment?: string;
+}
+
+/**
+ * id ulasan dibuat dari id pesanan dan id user yang memberikan ulasan,
+ * sehingga ulasan yang dikirim bersamaan tidak dapat tersimpan ganda
+ */
+export const getReviewId = (orderId: string, reviewerId: string) =>
+  `${orderId}_${reviewerId}`;
+
+/**
+ * menyimpan ulasan untuk pesanan yang sudah selesai, setiap user hanya
+ * dapat memberikan 1 ulasan per pesanan sehingga mengembalikan
+ * undefined jika user sudah pernah memberikan ulasan
+ */
+export const createReview = async ({
+  reviewerId,
+  revieweeId,
+  revieweeRole,
+  jobId,
+  offerApplicantId,
+  rating,
+  comment,
+}: Review): Promise<string | undefined> => {
+  const reviewId = getReviewId((jobId ?? offerApplicantId)!, reviewerId);
+  try {
+    await xata.transactions.run([
+      {
+        insert: {
+          table: "reviews",
+          createOnly: true,
+          record: {
+            id: reviewId,
+            reviewer: reviewerId,
+            reviewee: revieweeId,
+            reviewee_role: revieweeRole,
+            job: jobId ?? null,
+            offer_applicant: offerApplicantId ?? null,
+            rating,
+            comment: comment?.trim() ?? "",
+          },
+        },
+      },
+    ]);
+  } catch (e) {
+    // ulasan dengan id yang sama sudah dibuat oleh request lain
+    const duplicateQuery = database
+      .selectFrom("reviews as r")
+      .select(["r.id"])
+      .where("r.id", "=", reviewId);
+    if (e instanceof FetcherError && (await duplicateQuery.executeTakeFirst()))
+      return undefined;
+
+    throw e;
+  }
+
+  return reviewId;
+};
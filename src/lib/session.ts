@@ -0,0 +1,108 @@
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { generateAuthToken } from "./auth-token";
+import { database } from "./database";
+
+// masa berlaku refresh token (30 hari)
+const refreshTokenLifetime = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+  expires_at: string;
+}
+
+/**
+ * membuat refresh token baru beserta waktu kedaluwarsanya, token akses
+ * dibuat terpisah menggunakan generateAuthToken
+ */
+export const generateRefreshToken = () => ({
+  refresh_token: uuidv4(),
+  refresh_expires_at: new Date(Date.now() + refreshTokenLifetime),
+});
+
+/**
+ * nama perangkat diambil dari body request, jika tidak ada
+ * menggunakan header user-agent
+ */
+export const getDeviceName = (request: Request, deviceName?: string): string =>
+  (deviceName || request.headers.get("User-Agent") || "").trim();
+
+interface CreateSession {
+  userId: string;
+  role: string;
+  deviceName: string;
+}
+
+/**
+ * membuat session baru untuk user, setiap login menghasilkan session
+ * baru sehingga user dapat login di beberapa perangkat sekaligus
+ */
+export const createSession = async ({
+  userId,
+  role,
+  deviceName,
+}: CreateSession): Promise<SessionTokens> => {
+  const sessionId = uuidv4();
+  const refreshToken = generateRefreshToken();
+  const { token, expiresAt } = await generateAuthToken({
+    id: userId,
+    role,
+    session_id: sessionId,
+  });
+
+  const query = database
+    .insertInto("user_sessions")
+    .values({
+      id: sessionId,
+      ...refreshToken,
+      role,
+      user: userId,
+      device_name: deviceName,
+      expires_at: expiresAt,
+      last_used_at: new Date(),
+    } as any)
+    .returning(["refresh_token"]);
+  const result = await query.executeTakeFirstOrThrow();
+
+  return {
+    token,
+    refresh_token: result.refresh_token,
+    expires_at: expiresAt.toISOString(),
+  };
+};
+
+// last_used_at session diperbarui maksimal 1x per 5 menit
+const sessionTouchInterval = 5 * 60 * 1000;
+
+// waktu terakhir last_used_at setiap session diperbarui oleh instance ini
+const sessionTouchedAt = new Map<string, number>();
+
+/**
+ * memperbarui waktu terakhir session digunakan tanpa menunggu query
+ * selesai, sehingga verifikasi token tetap tidak menunggu database
+ */
+export const touchSession = (sessionId: string) => {
+  const now = Date.now();
+  const touchedAt = sessionTouchedAt.get(sessionId);
+  if (touchedAt && now - touchedAt < sessionTouchInterval) return;
+
+  // buang catatan lama agar map tidak terus bertambah
+  sessionTouchedAt.forEach((it, key) => {
+    if (now - it >= sessionTouchInterval) sessionTouchedAt.delete(key);
+  });
+  sessionTouchedAt.set(sessionId, now);
+
+  database
+    .updateTable("user_sessions")
+    .set({ last_used_at: sql<Date>`NOW()` })
+    .where("id", "=", sessionId)
+    .where((eb) =>
+      eb.or([
+        eb("last_used_at", "is", null),
+        eb("last_used_at", "<", sql<Date>`NOW() - INTERVAL '5 minutes'`),
+      ])
+    )
+    .execute()
+    .catch((e) => console.log(e));
+};
@@ -0,0 +1,11 @@
+/**
+ * antarmuka penyimpanan file, implementasi dipilih melalui env
+ * FILE_STORAGE (lihat getFileStorage). key merupakan path relatif file
+ * (misal: avatars/<user_id>/medium.webp), file dengan key yang sama
+ * akan ditimpa
+ */
+export interface FileStorage {
+  // menyimpan file dan mengembalikan url publik file tersebut
+  put: (key: string, content: Buffer, contentType: string) => Promise<string>;
+  remove: (key: string) => Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { FileStorage } from "./file-storage";
+import { localFileStorage } from "./local-file-storage";
+import { xataFileStorage } from "./xata-file-storage";
+
+export type { FileStorage } from "./file-storage";
+
+const fileStorages: Record<string, FileStorage> = {
+  local: localFileStorage,
+  xata: xataFileStorage,
+};
+
+/**
+ * mendapatkan penyimpanan file berdasarkan env FILE_STORAGE, default
+ * menggunakan xata pada production dan local disk pada development
+ */
+export const getFileStorage = (): FileStorage =>
+  fileStorages[
+    process.env.FILE_STORAGE ??
+      (process.env.NODE_ENV === "production" ? "xata" : "local")
+  ] ?? localFileStorage;
@@ -0,0 +1,38 @@
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { FileStorage } from "./file-storage";
+
+// file disimpan di folder public sehingga dapat diakses langsung oleh next
+const publicDirectory = "public";
+const uploadPath = "uploads";
+
+// key tidak boleh keluar dari folder public/uploads (misal: "../")
+const getFilePath = (key: string) => {
+  const uploadDirectory = path.resolve(publicDirectory, uploadPath);
+  const filePath = path.resolve(uploadDirectory, key);
+  if (!filePath.startsWith(uploadDirectory + path.sep))
+    throw new Error(`Key file tidak valid: ${key}`);
+
+  return filePath;
+};
+
+/**
+ * penyimpanan untuk development, file ditulis ke public/uploads dan
+ * disajikan oleh next sebagai static file
+ */
+export const localFileStorage: FileStorage = {
+  put: async (key: string, content: Buffer) => {
+    const filePath = getFilePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+
+    /**
+     * key yang sama akan menimpa file lama sehingga perlu query versi
+     * agar cache browser ikut diperbarui
+     */
+    return `/${uploadPath}/${key}?v=${Date.now()}`;
+  },
+  remove: async (key: string) => {
+    await rm(getFilePath(key), { force: true });
+  },
+};
@@ -0,0 +1,30 @@
+import { xata } from "../database";
+import { FileStorage } from "./file-storage";
+
+/**
+ * penyimpanan untuk production menggunakan file attachment xata, setiap
+ * file disimpan sebagai 1 record pada tabel stored_files
+ */
+export const xataFileStorage: FileStorage = {
+  put: async (key: string, content: Buffer, contentType: string) => {
+    const file = {
+      name: key.split("/").pop(),
+      mediaType: contentType,
+      base64Content: content.toString("base64"),
+      enablePublicUrl: true,
+    };
+
+    const existing = await xata.db.stored_files.filter({ key }).getFirst();
+    const record = existing
+      ? await existing.update({ file }, ["file.url"])
+      : await xata.db.stored_files.create({ key, file }, ["file.url"]);
+
+    if (!record?.file?.url)
+      throw new Error(`Gagal menyimpan file ${key} ke xata!`);
+    return record.file.url;
+  },
+  remove: async (key: string) => {
+    const existing = await xata.db.stored_files.filter({ key }).getFirst();
+    if (existing) await existing.delete();
+  },
+};
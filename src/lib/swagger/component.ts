@@ -4,9 +4,12 @@ export const swaggerComponentRefs = {
   ForbiddenError: "#/components/schemas/ForbiddenError",
   NotFoundError: "#/components/schemas/NotFoundError",
   ConflictError: "#/components/schemas/ConflictError",
+  TooManyRequestsError: "#/components/schemas/TooManyRequestsError",
   InternalServerError: "#/components/schemas/InternalServerError",
 
   PageInfo: "#/components/schemas/PageInfo",
+  Vehicle: "#/components/schemas/Vehicle",
+  AvatarUrls: "#/components/schemas/AvatarUrls",
 };
 
 export const swaggerComponents = {
@@ -67,6 +70,18 @@ export const swaggerComponents = {
     },
     required: ["message"],
   },
+  TooManyRequestsError: {
+    type: "object",
+    properties: {
+      message: {
+        type: "string",
+      },
+      retry_after: {
+        type: "number",
+      },
+    },
+    required: ["message", "retry_after"],
+  },
   InternalServerError: {
     type: "object",
     properties: {
@@ -90,4 +105,38 @@ export const swaggerComponents = {
       },
     },
   },
+  Vehicle: {
+    type: "object",
+    properties: {
+      type: {
+        type: "string",
+        enum: ["motorcycle", "car"],
+      },
+      plate_number: {
+        type: "string",
+      },
+      color: {
+        type: "string",
+      },
+      photo_url: {
+        type: "string",
+      },
+    },
+    required: ["type", "plate_number", "color", "photo_url"],
+  },
+  AvatarUrls: {
+    type: "object",
+    properties: {
+      small: {
+        type: "string",
+      },
+      medium: {
+        type: "string",
+      },
+      large: {
+        type: "string",
+      },
+    },
+    required: ["small", "medium", "large"],
+  },
 };
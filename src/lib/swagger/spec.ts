@@ -1,10 +1,14 @@
+import { authEmailPaths } from "@/app/api/v1/auth/email/docs";
 import { authLoginPaths } from "@/app/api/v1/auth/login/docs";
 import { authLogoutPaths } from "@/app/api/v1/auth/logout/docs";
+import { authPasswordPaths } from "@/app/api/v1/auth/password/docs";
+import { authRefreshPaths } from "@/app/api/v1/auth/refresh/docs";
 import { authRegisterPaths } from "@/app/api/v1/auth/register/docs";
 import { chatsPaths } from "@/app/api/v1/chats/docs";
 import { chatMessagesFromUserIdPaths } from "@/app/api/v1/chats/messages/from/[user_id]/docs";
 import { chatMessagesToUserIdPaths } from "@/app/api/v1/chats/messages/to/[user_id]/docs";
 import { chatMessagesByRoomIdPaths } from "@/app/api/v1/chats/rooms/[room_id]/messages/docs";
+import { chatMessagesByRoomIdAndIdPaths } from "@/app/api/v1/chats/rooms/[room_id]/messages/[message_id]/docs";
 import { readChatByRoomIdPaths } from "@/app/api/v1/chats/rooms/[room_id]/read/docs";
 import { chatRoomsPaths } from "@/app/api/v1/chats/rooms/docs";
 // import { examplePaths } from "@/app/api/v1/example/docs";
@@ -26,25 +30,48 @@ import { accountsCustomerDashboardPaths } from "@/app/api/v1/accounts/customer/d
 import { accountCustomerOrdersPaths } from "@/app/api/v1/accounts/customer/orders/docs";
 import { accountCustomerOrderHistoriesPaths } from "@/app/api/v1/accounts/customer/orders/histories/docs";
 import { accountsDriverDashboardPaths } from "@/app/api/v1/accounts/driver/dashboard/docs";
+import { accountsDriverProfilePaths } from "@/app/api/v1/accounts/driver/profile/docs";
 import { accountDriverOrdersPaths } from "@/app/api/v1/accounts/driver/orders/docs";
 import { accountDriverOrderHistoriesPaths } from "@/app/api/v1/accounts/driver/orders/histories/docs";
 import { accountsProfilePaths } from "@/app/api/v1/accounts/profile/docs";
+import { accountsProfileAvatarPaths } from "@/app/api/v1/accounts/profile/avatar/docs";
 import { editPasswordPaths } from "@/app/api/v1/accounts/profile/password/docs";
 import { changeRolePaths } from "@/app/api/v1/accounts/profile/roles/docs";
+import { accountsSessionsPaths } from "@/app/api/v1/accounts/sessions/docs";
 import { jobsIdApplicationsIdApprovalPaths } from "@/app/api/v1/jobs/[job_id]/applications/[application_id]/approval/docs";
 import { jobsIdApplicationsIdPaths } from "@/app/api/v1/jobs/[job_id]/applications/[application_id]/docs";
 import { jobsIdApplicationsPaths } from "@/app/api/v1/jobs/[job_id]/applications/docs";
+import { jobsIdCancellationPaths } from "@/app/api/v1/jobs/[job_id]/cancellation/docs";
 import { jobsIdCompletionPaths } from "@/app/api/v1/jobs/[job_id]/completion/docs";
 import { jobsIdCustomerPaths } from "@/app/api/v1/jobs/[job_id]/customer/docs";
 import { jobsIdDriverPaths } from "@/app/api/v1/jobs/[job_id]/driver/docs";
+import { jobsIdStatusPaths } from "@/app/api/v1/jobs/[job_id]/status/docs";
+import { jobsIdTimelinePaths } from "@/app/api/v1/jobs/[job_id]/timeline/docs";
+import { jobsIdReviewsPaths } from "@/app/api/v1/jobs/[job_id]/reviews/docs";
+import { reviewApplicantOfferByIdPaths } from "@/app/api/v1/offers/[offer_id]/applicants/[applicant_id]/reviews/docs";
 import { detailApplicantOfferByIdPaths } from "@/app/api/v1/offers/[offer_id]/applicants/[applicant_id]/docs";
 import { applicantsOfferPaths } from "@/app/api/v1/offers/[offer_id]/applicants/docs";
 import { detailOfferPaths } from "@/app/api/v1/offers/[offer_id]/docs";
 import { offers2Paths } from "@/app/api/v1/offers/docs";
 import { servicePricesPaths } from "@/app/api/v1/services/prices/docs";
+import { serviceQuotePaths } from "@/app/api/v1/services/quote/docs";
 import { swaggerComponents } from "./component";
 import { swaggerSecuritySchemes } from "./security";
 import { socialPaths } from "@/app/api/v1/social/docs";
+import { cronSweepPaths } from "@/app/api/v1/cron/sweep/docs";
+import { cronRevokedTokensPaths } from "@/app/api/v1/cron/revoked-tokens/docs";
+import { adminAuditLogsPaths } from "@/app/api/v1/admin/audit-logs/docs";
+import { adminDriverVerificationsIdPaths } from "@/app/api/v1/admin/driver-verifications/[verification_id]/docs";
+import { adminDriverVerificationsPaths } from "@/app/api/v1/admin/driver-verifications/docs";
+import { adminChatsRoomsIdMessagesPaths } from "@/app/api/v1/admin/chats/rooms/[room_id]/messages/docs";
+import { adminJobsIdCancellationPaths } from "@/app/api/v1/admin/jobs/[job_id]/cancellation/docs";
+import { adminOffersIdCancellationPaths } from "@/app/api/v1/admin/offers/[offer_id]/cancellation/docs";
+import { adminUsersIdSuspensionPaths } from "@/app/api/v1/admin/users/[user_id]/suspension/docs";
+import { adminUsersPaths } from "@/app/api/v1/admin/users/docs";
+import { usersIdPaths } from "@/app/api/v1/users/[user_id]/docs";
+import { accountsBlocksPaths } from "@/app/api/v1/accounts/blocks/docs";
+import { reportsPaths } from "@/app/api/v1/reports/docs";
+import { adminReportsPaths } from "@/app/api/v1/admin/reports/docs";
 
 export const swaggerSpec = {
   openapi: "3.1.0",
@@ -58,9 +85,13 @@ export const swaggerSpec = {
     ...authLoginPaths,
     ...authLogoutPaths,
     ...authRegisterPaths,
+    ...authRefreshPaths,
+    ...authPasswordPaths,
+    ...authEmailPaths,
 
     // account
     ...accountsProfilePaths,
+    ...accountsProfileAvatarPaths,
     ...accountCustomerOrdersPaths,
     ...accountsDriverDashboardPaths,
     ...accountsCustomerDashboardPaths,
@@ -69,6 +100,13 @@ export const swaggerSpec = {
     ...accountDriverOrderHistoriesPaths,
     ...accountCustomerOrderHistoriesPaths,
     ...changeRolePaths,
+    ...accountsSessionsPaths,
+    ...accountsDriverProfilePaths,
+    ...accountsBlocksPaths,
+
+    // users
+    ...usersIdPaths,
+    ...reportsPaths,
 
     // jobs
     ...jobsPaths,
@@ -78,7 +116,11 @@ export const swaggerSpec = {
     ...jobsIdApplicationsPaths,
     ...jobsIdApplicationsIdPaths,
     ...jobsIdApplicationsIdApprovalPaths,
+    ...jobsIdStatusPaths,
     ...jobsIdCompletionPaths,
+    ...jobsIdCancellationPaths,
+    ...jobsIdTimelinePaths,
+    ...jobsIdReviewsPaths,
     // ...singleJobPaths,
     // ...singleJobByIdPaths,
     // ...applyJobByIdPaths,
@@ -104,6 +146,7 @@ export const swaggerSpec = {
     // ...applyMultiOfferByIdPaths,
     ...applyOfferByIdPaths,
     ...detailApplicantOfferByIdPaths,
+    ...reviewApplicantOfferByIdPaths,
     ...applicantsOfferPaths,
     // ...acceptanceOffersByIdPaths,
 
@@ -117,11 +160,28 @@ export const swaggerSpec = {
     ...chatsPaths,
     ...chatRoomsPaths,
     ...chatMessagesByRoomIdPaths,
+    ...chatMessagesByRoomIdAndIdPaths,
     ...readChatByRoomIdPaths,
     ...chatMessagesFromUserIdPaths,
     ...chatMessagesToUserIdPaths,
 
     // services
     ...servicePricesPaths,
+    ...serviceQuotePaths,
+
+    // cron
+    ...cronSweepPaths,
+    ...cronRevokedTokensPaths,
+
+    // admin
+    ...adminUsersPaths,
+    ...adminUsersIdSuspensionPaths,
+    ...adminJobsIdCancellationPaths,
+    ...adminOffersIdCancellationPaths,
+    ...adminChatsRoomsIdMessagesPaths,
+    ...adminAuditLogsPaths,
+    ...adminDriverVerificationsPaths,
+    ...adminDriverVerificationsIdPaths,
+    ...adminReportsPaths,
   },
 };
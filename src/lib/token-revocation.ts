@@ -0,0 +1,120 @@
+import { sql } from "kysely";
+import { authTokenLifetime } from "./auth-token";
+import { database, linkId } from "./database";
+
+/**
+ * mencabut token akses dengan jti tertentu, misal ketika user berganti
+ * role sehingga token dengan role lama tidak dapat digunakan kembali
+ */
+export const revokeAuthToken = async (jti: string, expiresAt: Date) => {
+  await database
+    .insertInto("revoked_tokens")
+    .values({ jti, expires_at: expiresAt } as any)
+    .execute();
+
+  // langsung berlaku pada instance yang melakukan pencabutan
+  revocationCache?.jtis.add(jti);
+};
+
+/**
+ * mencabut seluruh token akses dari session tertentu dan menghapus
+ * session tersebut sehingga refresh token juga tidak dapat digunakan
+ */
+export const revokeSessions = async (sessionIds: string[]) => {
+  if (sessionIds.length === 0) return;
+
+  // token akses paling lama berlaku selama authTokenLifetime sejak dicabut
+  const expiresAt = new Date(Date.now() + authTokenLifetime);
+  await database
+    .insertInto("revoked_tokens")
+    .values(
+      sessionIds.map((it) => ({ session: it, expires_at: expiresAt }) as any)
+    )
+    .execute();
+  sessionIds.forEach((it) => revocationCache?.sessionIds.add(it));
+
+  await database
+    .deleteFrom("user_sessions")
+    .where("id", "in", sessionIds)
+    .execute();
+};
+
+/**
+ * mencabut seluruh session milik user, kecuali session yang sedang
+ * digunakan jika exceptSessionId diisi
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<string[]> => {
+  let query = database
+    .selectFrom("user_sessions")
+    .select("id")
+    .where("user", "=", linkId<"users">(userId));
+  if (exceptSessionId) query = query.where("id", "!=", exceptSessionId);
+  const result = await query.execute();
+
+  const sessionIds = result.map((it) => it.id);
+  await revokeSessions(sessionIds);
+  return sessionIds;
+};
+
+/**
+ * daftar token yang dicabut disimpan di memori dan dimuat ulang dari
+ * revoked_tokens paling cepat setiap revocationCacheLifetime, sehingga
+ * verifikasi token tidak memerlukan query ke database pada setiap
+ * request. pencabutan dari instance lain berlaku paling lambat setelah
+ * cache dimuat ulang
+ */
+const revocationCacheLifetime = 30 * 1000;
+
+interface RevocationCache {
+  jtis: Set<string>;
+  sessionIds: Set<string>;
+  loadedAt: number;
+}
+let revocationCache: RevocationCache | undefined;
+let revocationCacheLoading: Promise<RevocationCache> | undefined;
+
+const loadRevocationCache = async (): Promise<RevocationCache> => {
+  const query = database
+    .selectFrom("revoked_tokens as rt")
+    .select(["rt.jti", sql<string | null>`rt.session`.as("session_id")])
+    .where("rt.expires_at", ">", sql<Date>`NOW()`);
+  const result = await query.execute();
+
+  const cache: RevocationCache = {
+    jtis: new Set(),
+    sessionIds: new Set(),
+    loadedAt: Date.now(),
+  };
+  result.forEach((it) => {
+    if (it.jti) cache.jtis.add(it.jti);
+    if (it.session_id) cache.sessionIds.add(it.session_id);
+  });
+  return cache;
+};
+
+const getRevocationCache = async (): Promise<RevocationCache> => {
+  if (
+    revocationCache &&
+    Date.now() - revocationCache.loadedAt < revocationCacheLifetime
+  )
+    return revocationCache;
+
+  // request yang bersamaan menunggu proses pemuatan yang sama
+  if (!revocationCacheLoading)
+    revocationCacheLoading = loadRevocationCache().finally(() => {
+      revocationCacheLoading = undefined;
+    });
+  revocationCache = await revocationCacheLoading;
+  return revocationCache;
+};
+
+export const isAuthTokenRevoked = async (
+  jti: string,
+  sessionId: string
+): Promise<boolean> => {
+  const { jtis, sessionIds } = await getRevocationCache();
+  return jtis.has(jti) || sessionIds.has(sessionId);
+};
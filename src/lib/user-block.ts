@@ -0,0 +1,65 @@
+import { RawBuilder, sql } from "kysely";
+import { database, linkId } from "./database";
+import { APIResponse } from "./models/api-response";
+
+/**
+ * kondisi query untuk menyembunyikan data milik user yang diblokir
+ * oleh user atau yang memblokir user (2 arah)
+ */
+export const notBlockedWith = (
+  userColumn: string,
+  userId: string
+): RawBuilder<boolean> =>
+  sql<boolean>`not exists (select 1
+    from user_blocks b
+    where (b.blocker = ${userId} and b.blocked = ${sql.ref(userColumn)})
+      or (b.blocker = ${sql.ref(userColumn)} and b.blocked = ${userId}))`;
+
+/**
+ * mengecek apakah user memblokir atau diblokir oleh salah satu dari
+ * user lain
+ */
+export const isBlockedBetween = async (
+  userId: string,
+  userIds: string[]
+): Promise<boolean> => {
+  const otherUserIds = userIds
+    .filter((it) => it !== userId)
+    .map((it) => linkId<"users">(it));
+  if (otherUserIds.length === 0) return false;
+
+  const query = database
+    .selectFrom("user_blocks as b")
+    .select(["b.id"])
+    .where((eb) =>
+      eb.or([
+        eb.and([
+          eb("b.blocker", "=", linkId<"users">(userId)),
+          eb("b.blocked", "in", otherUserIds),
+        ]),
+        eb.and([
+          eb("b.blocker", "in", otherUserIds),
+          eb("b.blocked", "=", linkId<"users">(userId)),
+        ]),
+      ])
+    );
+  const result = await query.executeTakeFirst();
+
+  return !!result;
+};
+
+/**
+ * mengembalikan response forbidden jika user dan user lain saling
+ * memblokir, digunakan sebelum chat, melamar job dan melamar offer
+ */
+export const rejectIfBlocked = async (
+  userId: string,
+  otherUserIds: string[]
+): Promise<Response | undefined> => {
+  if (await isBlockedBetween(userId, otherUserIds))
+    return APIResponse.respondWithForbidden(
+      "Anda tidak dapat berinteraksi dengan user ini!"
+    );
+
+  return undefined;
+};
@@ -0,0 +1,58 @@
+import { ApplicantStatus, JobStatus } from "@/constants/constants";
+import { Role } from "@/constants/role";
+import { RawBuilder, sql } from "kysely";
+import { jobStatusValues } from "./job-state-machine";
+
+/**
+ * rata-rata rating (1 desimal) yang diterima user sebagai role tertentu,
+ * null jika user belum pernah mendapatkan rating
+ */
+export const averageRating = (
+  userColumn: string,
+  role: Role
+): RawBuilder<number | null> =>
+  sql<number | null>`(select round(avg(r.rating)::numeric, 1)::float
+    from reviews r
+    where r.reviewee = ${sql.ref(userColumn)} and r.reviewee_role = ${role})`;
+
+/**
+ * jumlah rating yang diterima user sebagai role tertentu
+ */
+export const ratingCount = (
+  userColumn: string,
+  role: Role
+): RawBuilder<number> =>
+  sql<number>`(select count(*)::int
+    from reviews r
+    where r.reviewee = ${sql.ref(userColumn)} and r.reviewee_role = ${role})`;
+
+/**
+ * jumlah pesanan yang sudah diselesaikan oleh driver, baik dari job
+ * maupun dari applicant offer
+ */
+export const completedTripCount = (driverColumn: string): RawBuilder<number> =>
+  sql<number>`((select count(*)::int
+    from jobs j
+    where j.freelancer = ${sql.ref(driverColumn)}
+      and j.status in (${sql.join(jobStatusValues(JobStatus.DONE))}))
+  + (select count(*)::int
+    from offer_applicants oa
+    inner join offers o on o.id = oa.offer
+    where o.freelancer = ${sql.ref(driverColumn)}
+      and oa.applicant_status = ${ApplicantStatus.DONE}))`;
+
+/**
+ * jumlah pesanan customer yang sudah selesai, baik dari job yang dibuat
+ * maupun dari lamaran offer
+ */
+export const completedOrderCount = (
+  customerColumn: string
+): RawBuilder<number> =>
+  sql<number>`((select count(*)::int
+    from jobs j
+    where j.customer = ${sql.ref(customerColumn)}
+      and j.status in (${sql.join(jobStatusValues(JobStatus.DONE))}))
+  + (select count(*)::int
+    from offer_applicants oa
+    where oa.customer = ${sql.ref(customerColumn)}
+      and oa.applicant_status = ${ApplicantStatus.DONE}))`;